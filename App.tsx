@@ -1,22 +1,35 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo, memo } from 'react';
-import * as pdfjsLib from 'pdfjs-dist';
-import { DecodedFileResult, QRGenerationData, GeneratedQR } from './types';
-import { FileText, UploadCloud, Copy, Check, QrCode, Image, Download, Plus } from './components/icons';
+import { DecodedFileResult, QRGenerationData, GeneratedQR, QRSettings, PageThumbnail, DecoderEngineId, PreprocessingPipeline, DetectionProfile, ExportFormat, CsvExportSettings } from './types';
+import { FileText, UploadCloud, Copy, Check, QrCode, Image, Plus, FolderOpen, AlertTriangle } from './components/icons';
 import { Spinner } from './components/Spinner';
-import { exportToCsv } from './services/export';
+import { exportResults } from './services/export';
+import { loadCsvSettings, saveCsvSettings } from './services/csvSettings';
 import { parseQRData } from './services/qrParser.tsx';
 import { QRGenerationForm } from './components/QRGenerationForm';
 import { GeneratedQRsView } from './components/GeneratedQRsView';
-import { createGeneratedQR } from './services/qrGenerator';
+import { ResultsOverlayViewer, QRSelection } from './components/ResultsOverlayViewer';
+import { QRDetailsPanel } from './components/QRDetailsPanel';
+import { DecoderEngineSelector } from './components/DecoderEngineSelector';
+import { PageRangeInput } from './components/PageRangeInput';
+import { OptionToggle } from './components/OptionToggle';
+import { PreprocessingPipelineEditor } from './components/PreprocessingPipelineEditor';
+import { DetectionProfileSelector } from './components/DetectionProfileSelector';
+import { ExportMenu } from './components/ExportMenu';
+import { CsvExportSettingsDialog } from './components/CsvExportSettingsDialog';
+import { CameraScanner } from './components/CameraScanner';
+import { createGeneratedQR, copyQRCodeImage } from './services/qrGenerator';
+import { createImageThumbnail, createThumbnailFromBlob, revokeThumbnails } from './services/thumbnails';
+import { createWorkerPool, WorkerPool, WorkerStatus } from './services/workerPool';
+import { DEFAULT_PREPROCESSING_PIPELINES } from './services/preprocessing';
+import { DEFAULT_DETECTION_PROFILE, DETECTION_PROFILE_LABELS } from './services/detectionProfiles';
+import { formatPageRanges, getSkippedPages, isAllPages, resolvePageRange } from './services/pageRange';
+import { summarizeStrategies, totalStrategyTimings } from './services/strategyStats';
+import { captureDisplayFrame, getPastedImageFiles, isScreenCaptureSupported } from './services/screenCapture';
+import { ACCEPTED_FILE_TYPES, detectInputFormat, rasterizeSvg } from './services/imageFormats';
+import { expandArchives, fromDirectoryInput, InputFile, isDirectoryPickerSupported, pickDirectoryFiles, readDroppedFiles } from './services/archiveInput';
+import { analyzePayloadRisk } from './services/urlRisk';
+import { parsePayload } from './services/payloadParsers';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
-  'pdfjs-dist/build/pdf.worker.min.mjs',
-  import.meta.url,
-).toString();
-
-const MAX_SCANNING_DIMENSION = 4096;
-const OPTIMAL_SCALE = 3.0; // Increased for better QR detection
-const HIGH_DPI_SCALE = 5.0; // For high-quality scanning
 const IS_DEVELOPMENT = process.env.NODE_ENV === 'development';
 
 type Status = 'idle' | 'processing' | 'results';
@@ -24,11 +37,14 @@ type ProcessingState = {
   total: number; 
   current: number; 
   currentFile: string;
-  currentPage?: number;
+  pagesProcessed?: number;
   totalPages?: number;
   strategy?: string;
+  workers?: WorkerStatus[];
+  paused?: boolean;
+  cancelled?: boolean;
 } | null;
-type ActiveTab = 'decoder' | 'generator';
+type ActiveTab = 'decoder' | 'generator' | 'camera';
 
 interface ProcessingMetrics {
   filesProcessed: number;
@@ -36,13 +52,17 @@ interface ProcessingMetrics {
   qrCodesFound: number;
   averageProcessingTime: number;
   totalProcessingTime: number;
+  cancelled: boolean;
 }
 
 // Memoized components for better performance
-const ProcessingStatus = memo(({ processingState, results, elapsedTime }: {
+const ProcessingStatus = memo(({ processingState, results, elapsedTime, onPause, onResume, onCancel }: {
   processingState: ProcessingState;
   results: DecodedFileResult[];
   elapsedTime: number;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
 }) => {
   if (!processingState) return null;
 
@@ -52,19 +72,28 @@ const ProcessingStatus = memo(({ processingState, results, elapsedTime }: {
   return (
     <div className="text-center space-y-6">
       <div className="flex items-center justify-center space-x-3">
-        <Spinner className="w-8 h-8" />
+        {processingState.paused ? (
+          <div className="w-8 h-8 flex items-center justify-center gap-1">
+            <div className="w-1.5 h-5 bg-amber-400 rounded-sm"></div>
+            <div className="w-1.5 h-5 bg-amber-400 rounded-sm"></div>
+          </div>
+        ) : (
+          <Spinner className="w-8 h-8" />
+        )}
         <div className="text-right">
           <p className="text-lg font-semibold text-white">
-            {processingState.currentFile}
+            {processingState.cancelled
+              ? 'Cancelling — finishing tasks in progress...'
+              : processingState.paused ? 'Paused' : processingState.currentFile}
           </p>
-          {processingState.currentPage && processingState.totalPages && (
+          {processingState.totalPages !== undefined && (
             <p className="text-sm text-slate-400">
-              Page {processingState.currentPage} of {processingState.totalPages}
+              {processingState.pagesProcessed || 0} of {processingState.totalPages} pages decoded
             </p>
           )}
-          <p className="text-xs text-slate-500">
-            Strategy: {processingState.strategy || 'multi-strategy-parallel'}
-          </p>
+          {processingState.strategy && (
+            <p className="text-xs text-slate-500">{processingState.strategy}</p>
+          )}
         </div>
       </div>
 
@@ -81,9 +110,55 @@ const ProcessingStatus = memo(({ processingState, results, elapsedTime }: {
         </div>
       </div>
 
+      {processingState.workers && processingState.workers.length > 0 && (
+        <div className="max-w-lg mx-auto bg-slate-800 rounded-lg p-4 text-left">
+          <div className="text-xs text-slate-400 mb-2">Workers ({processingState.workers.length})</div>
+          <div className="space-y-1">
+            {processingState.workers.map(worker => (
+              <div key={worker.id} className="flex items-center gap-3 text-xs">
+                <div className={`w-2 h-2 rounded-full flex-shrink-0 ${worker.busy ? 'bg-green-500 animate-pulse' : 'bg-slate-600'}`}></div>
+                <span className="text-slate-300 w-16 flex-shrink-0">Worker {worker.id}</span>
+                <span className="text-slate-400 flex-1 truncate">{worker.currentTask || 'Idle'}</span>
+                <span className="text-slate-500 flex-shrink-0">
+                  {worker.completed} done{worker.stolen > 0 ? ` · ${worker.stolen} stolen` : ''}{worker.queued > 0 ? ` · ${worker.queued} queued` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="text-sm text-slate-400">
         Processing time: {Math.floor(elapsedTime / 60)}:{String(elapsedTime % 60).padStart(2, '0')}
       </div>
+
+      <div className="flex justify-center gap-3">
+        {processingState.paused ? (
+          <button
+            onClick={onResume}
+            disabled={processingState.cancelled}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            Resume
+          </button>
+        ) : (
+          <button
+            onClick={onPause}
+            disabled={processingState.cancelled}
+            className="bg-slate-600 hover:bg-slate-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            Pause
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          disabled={processingState.cancelled}
+          className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+          title="Stop processing and keep the results found so far"
+        >
+          Cancel
+        </button>
+      </div>
     </div>
   );
 });
@@ -97,19 +172,33 @@ const App: React.FC = () => {
   const [copiedInfo, setCopiedInfo] = useState<{fileIndex: number, qrIndex: number} | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [processingMetrics, setProcessingMetrics] = useState<ProcessingMetrics | null>(null);
+  const [thumbnails, setThumbnails] = useState<PageThumbnail[]>([]);
+  const [selectedQR, setSelectedQR] = useState<QRSelection | null>(null);
+  const [decoderEngines, setDecoderEngines] = useState<DecoderEngineId[]>(['jsqr']);
+  const [pageRange, setPageRange] = useState('');
+  const [extractEmbeddedImages, setExtractEmbeddedImages] = useState(true);
+  const [detectionProfile, setDetectionProfile] = useState<DetectionProfile>(DEFAULT_DETECTION_PROFILE);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [csvSettings, setCsvSettings] = useState<CsvExportSettings>(loadCsvSettings);
+  const [showCsvSettings, setShowCsvSettings] = useState(false);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingPipeline[]>(DEFAULT_PREPROCESSING_PIPELINES);
   
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const workerRef = useRef<Worker | null>(null);
+  const poolRef = useRef<WorkerPool | null>(null);
   const startTimeRef = useRef<number>(0);
   const fileProcessingStartRef = useRef<number>(0);
   const copiedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const generatedCopiedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const thumbnailsRef = useRef<PageThumbnail[]>([]);
+  const cancelRequestedRef = useRef(false);
   
   // New generator state
   const [activeTab, setActiveTab] = useState<ActiveTab>('decoder');
   const [generatedQRs, setGeneratedQRs] = useState<GeneratedQR[]>([]);
   const [showGenerationForm, setShowGenerationForm] = useState(false);
   const [copiedGeneratedId, setCopiedGeneratedId] = useState<string | null>(null);
+  const [copyFailedGeneratedId, setCopyFailedGeneratedId] = useState<string | null>(null);
 
   // Cleanup function for all timers
   const cleanupTimers = useCallback(() => {
@@ -127,6 +216,19 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Thumbnails hold object URLs, so they are tracked in a ref for cleanup
+  const addThumbnail = useCallback((thumbnail: PageThumbnail) => {
+    thumbnailsRef.current = [...thumbnailsRef.current, thumbnail];
+    setThumbnails(thumbnailsRef.current);
+  }, []);
+
+  const clearThumbnails = useCallback(() => {
+    revokeThumbnails(thumbnailsRef.current);
+    thumbnailsRef.current = [];
+    setThumbnails([]);
+    setSelectedQR(null);
+  }, []);
+
   // Memoized calculations for better performance
   const resultStats = useMemo(() => {
     const filteredResults = results.filter(r => !(r.pageNumber && r.parentFileName));
@@ -138,26 +240,32 @@ const App: React.FC = () => {
   }, [results]);
 
   useEffect(() => {
-    // Create worker on mount
-    workerRef.current = new Worker(new URL('./services/qrWorker.ts', import.meta.url), { type: 'module' });
-
-    const handleWorkerMessage = (event: MessageEvent) => {
-      const { type, payload } = event.data;
-      
-      switch (type) {
-        case 'result':
+    // Create the worker pool on mount
+    poolRef.current = createWorkerPool(
+      () => new Worker(new URL('./services/qrWorker.ts', import.meta.url), { type: 'module' }),
+      {
+        onResult: (payload, thumbnail) => {
+          if (thumbnail) {
+            addThumbnail(createThumbnailFromBlob(thumbnail));
+          }
           setResults(prev => {
-            // Handle PDF page results differently from regular file results
+            // Handle PDF and TIFF page results differently from regular file results
             if (payload.pageNumber && payload.parentFileName) {
-              // This is a PDF page result - merge with parent PDF file
-              const existingIndex = prev.findIndex(r => r.fileName === payload.parentFileName);
+              // This is a page result - merge with parent document
+              const existingIndex = prev.findIndex(r => (r.relativePath ?? r.fileName) === payload.parentFileName);
               
               if (existingIndex >= 0) {
                 const updated = [...prev];
+                const parent = updated[existingIndex];
+                const qrs = [...parent.qrs, ...payload.qrs];
                 updated[existingIndex] = {
-                  ...updated[existingIndex],
-                  qrs: [...updated[existingIndex].qrs, ...payload.qrs],
-                  status: payload.qrs.length > 0 ? 'success' : updated[existingIndex].status
+                  ...parent,
+                  qrs,
+                  status: payload.qrs.length > 0 ? 'success' : parent.status,
+                  // Page times add up to the PDF's decode time, not counting time spent queued
+                  processingTime: (parent.processingTime || 0) + (payload.processingTime || 0),
+                  strategy: summarizeStrategies(qrs),
+                  strategyTimings: [...(parent.strategyTimings || []), ...(payload.strategyTimings || [])]
                 };
                 return updated;
               }
@@ -166,18 +274,21 @@ const App: React.FC = () => {
             // Regular file result or initial PDF entry
             return [...prev, payload];
           });
-          break;
-          
-        case 'progress':
+        },
+
+        onProgress: (progress) => {
           setProcessingState(prev => prev ? {
             ...prev,
-            currentPage: payload.currentPage,
-            totalPages: payload.total
+            pagesProcessed: progress.pagesProcessed,
+            workers: progress.workers,
+            paused: progress.paused,
+            cancelled: progress.cancelled
           } : null);
-          break;
-          
-        case 'complete':
+        },
+
+        onComplete: (progress) => {
           cleanupTimers();
+          poolRef.current?.broadcast({ type: 'releaseDocuments' });
           const totalTime = Date.now() - startTimeRef.current;
           setElapsedTime(Math.round(totalTime / 1000));
           
@@ -186,185 +297,131 @@ const App: React.FC = () => {
             // Calculate final metrics with current results
             setProcessingMetrics({
               filesProcessed: currentResults.length,
-              pagesProcessed: payload.totalProcessed || 0,
+              pagesProcessed: progress.pagesProcessed,
               qrCodesFound: currentResults.reduce((sum, r) => sum + r.qrs.length, 0),
               averageProcessingTime: totalTime / Math.max(currentResults.length, 1),
-              totalProcessingTime: totalTime
+              totalProcessingTime: totalTime,
+              cancelled: progress.cancelled
             });
             
             setStatus('results');
             setProcessingState(null);
             return currentResults; // Return unchanged results
           });
-          break;
-          
-        case 'error':
+        },
+
+        onError: (payload) => {
           if (IS_DEVELOPMENT) {
             console.error('Worker error:', payload);
           }
-          // Add error result to display
-          setResults(prev => [...prev, {
-            fileName: payload.fileName || 'Unknown File',
-            status: 'error',
-            qrs: [],
-            error: payload.message
-          }]);
-          break;
-          
-        default:
-          if (IS_DEVELOPMENT) {
-            console.warn('Unknown worker message type:', type);
-          }
-      }
-    };
-
-    workerRef.current.addEventListener('message', handleWorkerMessage);
-
-    return () => {
-      workerRef.current?.removeEventListener('message', handleWorkerMessage);
-      workerRef.current?.terminate();
-      cleanupTimers();
-    };
-  }, [cleanupTimers]);
-
-  // Enhanced PDF processing with super advanced features
-  const processEnhancedPDF = async (file: File) => {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({
-        data: arrayBuffer,
-        cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.5.136/cmaps/',
-        cMapPacked: true,
-      }).promise;
-
-      const totalPages = pdf.numPages;
-      if (IS_DEVELOPMENT) {
-        console.log(`Processing PDF: ${file.name} (${totalPages} pages)`);
-      }
-      
-      // Initialize PDF processing
-      workerRef.current?.postMessage({ 
-        type: 'setPdfPageCount', 
-        pageCount: totalPages 
-      });
-
-      // Create initial PDF result entry
-      const pdfResult: DecodedFileResult = {
-        fileName: file.name,
-        status: 'no_qr_found', // Start with no QR found, will be updated
-        qrs: []
-      };
-      setResults(prev => [...prev, pdfResult]);
-
-      // Process pages with adaptive scaling and enhanced rendering
-      const pageProcessingPromises = [];
-      
-      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-        const pagePromise = pdf.getPage(pageNum).then(async (page) => {
-          try {
-            // Get page dimensions
-            const unscaledViewport = page.getViewport({ scale: 1.0 });
-            let scale = OPTIMAL_SCALE;
-
-            // Adaptive scaling based on page size and content
-            const pageArea = unscaledViewport.width * unscaledViewport.height;
-            if (pageArea > 1000000) { // Large pages
-              scale = HIGH_DPI_SCALE;
-            } else if (pageArea < 100000) { // Small pages
-              scale = HIGH_DPI_SCALE * 1.5; // Extra upscaling for small content
-            }
-
-            // Apply dimension constraints
-            let viewport = page.getViewport({ scale });
-            if (viewport.width > MAX_SCANNING_DIMENSION || viewport.height > MAX_SCANNING_DIMENSION) {
-              const constraintScale = Math.min(
-                MAX_SCANNING_DIMENSION / unscaledViewport.width,
-                MAX_SCANNING_DIMENSION / unscaledViewport.height
-              );
-              scale = Math.min(scale, constraintScale);
-              viewport = page.getViewport({ scale });
-            }
+          setResults(prev => {
+            // A failed page belongs to its document, like page results; the rest of the document still counts
+            if (payload.parentFileName) {
+              const pageError = payload.pageNumber ? `Page ${payload.pageNumber}: ${payload.message}` : payload.message;
+              const existingIndex = prev.findIndex(r => (r.relativePath ?? r.fileName) === payload.parentFileName);
 
-            // Create high-quality canvas
-            const canvas = new OffscreenCanvas(
-              Math.floor(viewport.width),
-              Math.floor(viewport.height)
-            );
-            const context = canvas.getContext('2d');
-            if (!context) {
-              if (IS_DEVELOPMENT) {
-                console.error(`Failed to get context for page ${pageNum}`);
+              if (existingIndex >= 0) {
+                const updated = [...prev];
+                const parent = updated[existingIndex];
+                updated[existingIndex] = {
+                  ...parent,
+                  status: parent.qrs.length > 0 ? 'success' : 'error',
+                  error: parent.error ? `${parent.error}; ${pageError}` : pageError
+                };
+                return updated;
               }
-              return;
-            }
-
-            // Enhanced rendering with better quality settings
-            const renderContext = {
-              canvasContext: context as any,
-              viewport: viewport,
-              enableWebGL: false, // Disable WebGL for better compatibility
-              renderInteractiveForms: false,
-              background: 'white' // Ensure white background for better QR detection
-            };
-
-            if (IS_DEVELOPMENT) {
-              console.log(`Rendering page ${pageNum}/${totalPages} at ${scale}x scale (${viewport.width}x${viewport.height})`);
             }
-            
-            await page.render(renderContext).promise;
-            
-            // Get image data with enhanced quality
-            const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-            
-            // Send to worker for super advanced processing
-            workerRef.current?.postMessage({ 
-              type: 'imageData', 
-              imageData, 
-              pageNum,
-              parentFileName: file.name // Pass parent file name
-            }, [imageData.data.buffer]);
-
-            // Clean up page resources
-            page.cleanup();
-            
-          } catch (error) {
-            if (IS_DEVELOPMENT) {
-              console.error(`Error processing page ${pageNum}:`, error);
-            }
-          }
-        });
 
-        pageProcessingPromises.push(pagePromise);
-        
-        // Process in batches to prevent memory issues
-        if (pageProcessingPromises.length >= 5) {
-          await Promise.allSettled(pageProcessingPromises.splice(0, 5));
+            // Add error result to display
+            return [...prev, {
+              fileName: payload.fileName || 'Unknown File',
+              relativePath: payload.relativePath,
+              status: 'error',
+              qrs: [],
+              error: payload.message
+            }];
+          });
         }
       }
+    );
 
-      // Process remaining pages
-      if (pageProcessingPromises.length > 0) {
-        await Promise.allSettled(pageProcessingPromises);
-      }
-
-      // Clean up PDF resources
-      await pdf.destroy();
-      
+    return () => {
+      poolRef.current?.terminate();
+      poolRef.current = null;
+      cleanupTimers();
+      revokeThumbnails(thumbnailsRef.current);
+    };
+  }, [cleanupTimers, addThumbnail]);
+
+  // PDF and multi-page TIFF pages are loaded and rendered inside the pool workers; this only hands out page tasks
+  const processPagedDocument = async ({ file, relativePath }: InputFile, format: 'pdf' | 'tiff', range: string) => {
+    const pool = poolRef.current;
+    if (!pool) return;
+
+    // Pages find their parent by this key; names alone can repeat across folders of an archive
+    const sourceKey = relativePath ?? file.name;
+    // Workers cache loaded documents under this key so each parses the file once
+    const docKey = `${sourceKey}:${file.size}:${file.lastModified}`;
+    const info = await pool.submit({
+      type: format === 'pdf' ? 'pdfInfo' : 'tiffInfo',
+      label: `${file.name} (loading)`,
+      message: { file, docKey, relativePath }
+    }) as
+      { numPages: number } | undefined;
+    // A failed load is reported through the pool's error callback
+    if (!info) return;
+
+    let pages: number[];
+    try {
+      pages = resolvePageRange(range, info.numPages);
     } catch (error) {
-      if (IS_DEVELOPMENT) {
-        console.error(`Failed to process PDF ${file.name}:`, error);
-      }
-      const errorResult: DecodedFileResult = {
+      setResults(prev => [...prev, {
         fileName: file.name,
+        relativePath,
         status: 'error',
         qrs: [],
-        error: error instanceof Error ? error.message : 'PDF processing failed'
-      };
-      setResults(prev => [...prev, errorResult]);
+        error: `Invalid page range: ${error instanceof Error ? error.message : range}`
+      }]);
+      return;
+    }
+
+    if (IS_DEVELOPMENT) {
+      console.log(`Processing ${format.toUpperCase()}: ${file.name} (${pages.length} of ${info.numPages} pages)`);
+    }
+
+    // Initialize document processing
+    setProcessingState(prev => prev ? {
+      ...prev,
+      totalPages: (prev.totalPages || 0) + pages.length
+    } : null);
+
+    // Create initial document result entry
+    const pdfResult: DecodedFileResult = {
+      fileName: file.name,
+      relativePath,
+      status: 'no_qr_found', // Start with no QR found, will be updated
+      qrs: [],
+      pageSelection: isAllPages(range) ? undefined : { range: range.trim(), totalPages: info.numPages, pages },
+      totalPages: info.numPages,
+      profile: detectionProfile.id
+    };
+    setResults(prev => [...prev, pdfResult]);
+
+    for (const pageNum of pages) {
+      pool.submit({
+        type: format === 'pdf' ? 'pdfPage' : 'tiffPage',
+        label: `${file.name} p.${pageNum}`,
+        message: {
+          file,
+          docKey,
+          pageNum,
+          parentFileName: sourceKey
+        }
+      });
     }
   };
 
-  const handleFiles = useCallback(async (files: FileList | null) => {
+  const handleFiles = useCallback(async (files: FileList | File[] | InputFile[] | null) => {
     if (!files || files.length === 0) return;
 
     startTimeRef.current = Date.now();
@@ -378,36 +435,77 @@ const App: React.FC = () => {
 
     setStatus('processing');
     setResults([]);
-    const fileArray = Array.from(files);
+    clearThumbnails();
+    cancelRequestedRef.current = false;
+    poolRef.current?.beginBatch();
+    poolRef.current?.configure({ engines: decoderEngines, extractEmbeddedImages, preprocessing, profile: detectionProfile });
     let filesProcessed = 0;
 
     setProcessingState({ 
-      total: fileArray.length, 
+      total: files.length, 
       current: 0, 
       currentFile: 'Initializing advanced QR detection...',
-      strategy: 'multi-strategy-parallel'
+      strategy: `${DETECTION_PROFILE_LABELS[detectionProfile.id].label} detection profile`
     });
 
-    for (const file of fileArray) {
+    // ZIP archives are replaced by the files inside them before anything is queued
+    const inputs = await expandArchives(Array.from<File | InputFile>(files).map(item => item instanceof File ? { file: item } : item));
+    setProcessingState(prev => prev ? { ...prev, total: inputs.length } : null);
+
+    for (const input of inputs) {
+      // Files not yet handed to the pool are skipped once the batch is cancelled
+      if (cancelRequestedRef.current) break;
+
+      const { file, relativePath } = input;
       setProcessingState(prev => prev ? { 
         ...prev, 
         current: filesProcessed + 1, 
-        currentFile: `Processing: ${file.name}`,
-        strategy: file.type === 'application/pdf' ? 'enhanced-pdf-processing' : 'advanced-image-analysis'
+        currentFile: `Processing: ${relativePath ?? file.name}`
       } : null);
       
-      if (file.type.startsWith('image/')) {
-        workerRef.current?.postMessage({ type: 'image', file });
-      } else if (file.type === 'application/pdf') {
-        await processEnhancedPDF(file);
+      // Sniffed from the bytes, since browsers leave the MIME type empty for HEIC and TIFF
+      const format = input.error ? 'unsupported' : await detectInputFormat(file);
+      if (format === 'pdf' || format === 'tiff') {
+        await processPagedDocument(input, format, pageRange);
+      } else if (format === 'unsupported') {
+        // Folders and archives hold all sorts of files; only ones picked directly are worth reporting
+        if (!relativePath || input.error) {
+          setResults(prev => [...prev, { fileName: file.name, relativePath, status: 'error', qrs: [], error: input.error ?? 'Unsupported file type.' }]);
+        }
+      } else {
+        try {
+          // SVG is rasterised here because workers have no DOM to render it with
+          const imageFile = format === 'svg' ? await rasterizeSvg(file) : file;
+          poolRef.current?.submit({
+            type: 'image',
+            label: file.name,
+            message: { file: imageFile, format: format === 'svg' ? 'raster' : format, relativePath }
+          });
+          // The worker previews HEIC itself, as most browsers cannot decode it
+          if (format !== 'heic') {
+            createImageThumbnail(imageFile, relativePath ?? file.name).then(addThumbnail).catch(error => {
+              if (IS_DEVELOPMENT) {
+                console.error(`Failed to create thumbnail for ${file.name}:`, error);
+              }
+            });
+          }
+        } catch (error) {
+          setResults(prev => [...prev, {
+            fileName: file.name,
+            relativePath,
+            status: 'error',
+            qrs: [],
+            error: error instanceof Error ? error.message : 'Could not read image.'
+          }]);
+        }
       }
       
       filesProcessed++;
     }
 
-    // Signal completion to worker
-    workerRef.current?.postMessage({ type: 'allFilesSent' });
-  }, []);
+    // Signal that no more work is coming so the pool can report completion
+    poolRef.current?.finishBatch();
+  }, [decoderEngines, pageRange, extractEmbeddedImages, preprocessing, detectionProfile]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     handleFiles(e.target.files);
@@ -420,7 +518,59 @@ const App: React.FC = () => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFiles(e.dataTransfer.files);
+      // Dropped folders are walked for the files inside them
+      readDroppedFiles(e.dataTransfer).then(handleFiles).catch(error => {
+        if (IS_DEVELOPMENT) {
+          console.error('Failed to read dropped items:', error);
+        }
+      });
+    }
+  };
+
+  const handleFolderInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) handleFiles(fromDirectoryInput(e.target.files));
+    e.target.value = '';
+  };
+
+  const handleChooseFolder = async () => {
+    if (!isDirectoryPickerSupported()) {
+      document.getElementById('folder-upload')?.click();
+      return;
+    }
+    try {
+      handleFiles(await pickDirectoryFiles());
+    } catch (error) {
+      // Closing the picker is not an error
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      if (IS_DEVELOPMENT) {
+        console.error('Failed to read folder:', error);
+      }
+    }
+  };
+
+  // Images pasted anywhere on the decoder tab, e.g. screenshots or codes copied from a chat window
+  useEffect(() => {
+    if (activeTab !== 'decoder' || status === 'processing') return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = getPastedImageFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleFiles(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [activeTab, status, handleFiles]);
+
+  const handleScreenCapture = async () => {
+    setCaptureError(null);
+    try {
+      handleFiles([await captureDisplayFrame()]);
+    } catch (error) {
+      // Dismissing the share picker is not an error worth showing
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      setCaptureError(error instanceof Error ? error.message : 'Screen capture failed');
     }
   };
 
@@ -438,6 +588,7 @@ const App: React.FC = () => {
     cleanupTimers();
     setStatus('idle');
     setResults([]);
+    clearThumbnails();
     setProcessingState(null);
     setCopiedInfo(null);
     setElapsedTime(0);
@@ -451,14 +602,37 @@ const App: React.FC = () => {
     copiedTimeoutRef.current = setTimeout(() => setCopiedInfo(null), 2000);
   };
 
+  const handleSelectQR = (selection: QRSelection, source: 'list' | 'viewer') => {
+    setSelectedQR(selection);
+    // Bring the counterpart of whatever was clicked into view
+    const targetId = source === 'viewer'
+      ? `qr-entry-${selection.fileIndex}-${selection.qrIndex}`
+      : `qr-outline-${selection.fileIndex}-${selection.qrIndex}`;
+    document.getElementById(targetId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
   const handleExport = () => {
-    exportToCsv(results);
+    // Page entries are already merged into their documents
+    exportResults(resultStats.filteredResults, exportFormat, csvSettings);
+  };
+
+  const handleSaveCsvSettings = (settings: CsvExportSettings) => {
+    setCsvSettings(settings);
+    saveCsvSettings(settings);
+    setShowCsvSettings(false);
   };
 
+  const handlePause = useCallback(() => poolRef.current?.pause(), []);
+  const handleResume = useCallback(() => poolRef.current?.resume(), []);
+  const handleCancel = useCallback(() => {
+    cancelRequestedRef.current = true;
+    poolRef.current?.cancel();
+  }, []);
+
   // QR Generation handlers
-  const handleGenerateQR = async (data: QRGenerationData) => {
+  const handleGenerateQR = async (data: QRGenerationData, settings: QRSettings) => {
     try {
-      const generatedQR = await createGeneratedQR(data);
+      const generatedQR = await createGeneratedQR(data, settings);
       setGeneratedQRs(prev => [generatedQR, ...prev]);
       setShowGenerationForm(false);
     } catch (error) {
@@ -473,11 +647,34 @@ const App: React.FC = () => {
     setGeneratedQRs(prev => prev.filter(qr => qr.id !== id));
   };
 
-  const handleCopyGeneratedQR = (data: string, id: string) => {
+  const handleCopyGeneratedQR = async (qr: GeneratedQR) => {
     cleanupTimers(); // Clear any existing timeout
-    navigator.clipboard.writeText(data);
-    setCopiedGeneratedId(id);
-    generatedCopiedTimeoutRef.current = setTimeout(() => setCopiedGeneratedId(null), 2000);
+    setCopiedGeneratedId(null);
+    setCopyFailedGeneratedId(null);
+    const showFeedback = (setId: (id: string | null) => void) => {
+      setId(qr.id);
+      generatedCopiedTimeoutRef.current = setTimeout(() => setId(null), 2000);
+    };
+
+    try {
+      await copyQRCodeImage(qr);
+    } catch (error) {
+      // Fall back to the raw data when image clipboard writes are unsupported
+      if (IS_DEVELOPMENT) {
+        console.error('Failed to copy QR image:', error);
+      }
+      try {
+        await navigator.clipboard.writeText(qr.data);
+      } catch (fallbackError) {
+        // Clipboard permission denied, or the page lost focus before the write
+        if (IS_DEVELOPMENT) {
+          console.error('Failed to copy QR data:', fallbackError);
+        }
+        showFeedback(setCopyFailedGeneratedId);
+        return;
+      }
+    }
+    showFeedback(setCopiedGeneratedId);
   };
 
   // Enhanced processing status with metrics
@@ -490,6 +687,9 @@ const App: React.FC = () => {
           processingState={processingState}
           results={results}
           elapsedTime={elapsedTime}
+          onPause={handlePause}
+          onResume={handleResume}
+          onCancel={handleCancel}
         />
       </div>
     );
@@ -527,8 +727,10 @@ const App: React.FC = () => {
         {processingMetrics && (
           <div className="bg-gradient-to-r from-slate-800 to-slate-700 rounded-xl p-6 border border-slate-600">
             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              Processing Complete - Advanced QR Detection Report
+              <div className={`w-2 h-2 rounded-full animate-pulse ${processingMetrics.cancelled ? 'bg-amber-500' : 'bg-green-500'}`}></div>
+              {processingMetrics.cancelled
+                ? 'Processing Cancelled - Results Found Before Cancelling'
+                : 'Processing Complete - Advanced QR Detection Report'}
             </h3>
             <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
               <div className="text-center">
@@ -570,14 +772,13 @@ const App: React.FC = () => {
             </p>
           </div>
           <div className="flex gap-2">
-            {totalQRs > 0 && (
-              <button
-                onClick={handleExport}
-                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
-              >
-                <Download className="w-4 h-4" />
-                Export CSV
-              </button>
+            {totalFiles > 0 && (
+              <ExportMenu
+                format={exportFormat}
+                onFormatChange={setExportFormat}
+                onExport={handleExport}
+                onConfigureCsv={() => setShowCsvSettings(true)}
+              />
             )}
             <button
               onClick={resetState}
@@ -588,98 +789,189 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {/* Results List */}
-        <div className="space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar pr-2">
-          {resultStats.filteredResults.map((result, fileIndex) => {
-            // Skip individual page results - they should be merged into parent PDF
-            if (result.pageNumber && result.parentFileName) {
-              return null;
-            }
+        <div className={thumbnails.length > 0 ? 'grid gap-6 lg:grid-cols-2' : ''}>
+          {/* Overlay Viewer */}
+          {thumbnails.length > 0 && (
+            <div className="max-h-[60vh] overflow-y-auto custom-scrollbar pr-2">
+              <ResultsOverlayViewer
+                results={resultStats.filteredResults}
+                thumbnails={thumbnails}
+                selected={selectedQR}
+                onSelect={(selection) => handleSelectQR(selection, 'viewer')}
+              />
+            </div>
+          )}
 
-            // Create a unique key that won't conflict
-            const uniqueKey = `result-${result.fileName}-${fileIndex}-${result.qrs.length}`;
-
-            return (
-              <div key={uniqueKey} className="bg-slate-800 rounded-lg p-6 border border-slate-700">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className={`w-3 h-3 rounded-full ${
-                      result.status === 'success' ? 'bg-green-500' :
-                      result.status === 'no_qr_found' ? 'bg-yellow-500' : 'bg-red-500'
-                    }`}></div>
-                    <div>
-                      <h3 className="font-semibold text-white break-words">{result.fileName}</h3>
-                      <p className="text-sm text-slate-400">
-                        {result.status === 'success' ? 
-                          `${result.qrs.length} QR code${result.qrs.length !== 1 ? 's' : ''} found` :
-                         result.status === 'no_qr_found' ? 'No QR codes detected' :
-                         `Error: ${result.error || 'Unknown error'}`}
-                      </p>
+          {/* Results List */}
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar pr-2">
+            {resultStats.filteredResults.map((result, fileIndex) => {
+              // Skip individual page results - they should be merged into parent PDF
+              if (result.pageNumber && result.parentFileName) {
+                return null;
+              }
+
+              // Create a unique key that won't conflict
+              const uniqueKey = `result-${result.fileName}-${fileIndex}-${result.qrs.length}`;
+
+              return (
+                <div key={uniqueKey} className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <div className={`w-3 h-3 rounded-full ${
+                        result.status === 'success' ? 'bg-green-500' :
+                        result.status === 'no_qr_found' ? 'bg-yellow-500' : 'bg-red-500'
+                      }`}></div>
+                      <div>
+                        <h3 className="font-semibold text-white break-words">{result.fileName}</h3>
+                        {result.relativePath && (
+                          <p className="text-xs text-slate-500 break-all">{result.relativePath}</p>
+                        )}
+                        <p className="text-sm text-slate-400">
+                          {result.status === 'success' ? 
+                            `${result.qrs.length} QR code${result.qrs.length !== 1 ? 's' : ''} found` :
+                           result.status === 'no_qr_found' ? 'No QR codes detected' :
+                           `Error: ${result.error || 'Unknown error'}`}
+                        </p>
+                        {result.status !== 'error' && result.error && (
+                          <p className="text-xs text-red-400">{result.error}</p>
+                        )}
+                        {result.pageSelection && (
+                          <p className="text-xs text-slate-500">
+                            {result.pageSelection.pages.length > 0
+                              ? `Decoded pages ${formatPageRanges(result.pageSelection.pages)} of ${result.pageSelection.totalPages}`
+                              : `No pages of ${result.pageSelection.totalPages} matched "${result.pageSelection.range}"`}
+                            {getSkippedPages(result.pageSelection).length > 0 &&
+                              ` · ${getSkippedPages(result.pageSelection).length} skipped`}
+                          </p>
+                        )}
+                        {result.profile && (
+                          <p className="text-xs text-slate-500">{DETECTION_PROFILE_LABELS[result.profile].label} detection profile</p>
+                        )}
+                        {result.strategyTimings && result.strategyTimings.length > 0 && (
+                          <details className="text-xs text-slate-500">
+                            <summary className="cursor-pointer hover:text-slate-300 select-none">
+                              Decoded in {Math.round(result.processingTime || 0)}ms
+                            </summary>
+                            <ul className="mt-1 space-y-0.5">
+                              {totalStrategyTimings(result.strategyTimings).map(total => (
+                                <li key={total.strategy}>
+                                  {total.strategy}: {Math.round(total.durationMs)}ms
+                                  {total.runs > 1 && ` over ${total.runs} runs`}
+                                  {total.codesFound > 0 && `, ${total.codesFound} found`}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                      </div>
                     </div>
+                    {result.qrs.length > 0 && (
+                      <div className="text-sm text-slate-500 flex-shrink-0">
+                        {result.qrs.length} code{result.qrs.length !== 1 ? 's' : ''}
+                      </div>
+                    )}
                   </div>
-                  {result.qrs.length > 0 && (
-                    <div className="text-sm text-slate-500 flex-shrink-0">
-                      {result.qrs.length} code{result.qrs.length !== 1 ? 's' : ''}
-                    </div>
-                  )}
-                </div>
 
-                {result.qrs.length > 0 && (
-                  <div className="space-y-3">
-                    {result.qrs.map((qr, qrIndex) => {
-                      // Create unique key for QR codes to prevent conflicts
-                      const qrKey = `qr-${uniqueKey}-${qrIndex}-${qr.page}-${qr.data.length}`;
-                      
-                      return (
-                        <div key={qrKey} className="bg-slate-700 rounded-lg p-4">
-                          <div className="flex justify-between items-start gap-4">
-                            <div className="flex-1 min-w-0"> {/* min-w-0 for text truncation */}
-                              <div className="flex items-center gap-2 mb-2">
-                                <QrCode className="w-4 h-4 text-indigo-400 flex-shrink-0" />
-                                <span className="text-sm font-medium text-slate-300">
-                                  {result.fileName.toLowerCase().endsWith('.pdf') ? `Page ${qr.page}` : 'QR Code'}
-                                </span>
-                              </div>
-                              <div className="bg-slate-900 rounded p-3 font-mono text-sm text-slate-200 break-all">
-                                {parseQRData(qr.data)}
+                  {result.qrs.length > 0 && (
+                    <div className="space-y-3">
+                      {result.qrs.map((qr, qrIndex) => {
+                        // Create unique key for QR codes to prevent conflicts
+                        const qrKey = `qr-${uniqueKey}-${qrIndex}-${qr.page}-${qr.data.length}`;
+                        const urlRisks = qr.metadata?.isBinary ? [] : analyzePayloadRisk(parsePayload(qr.data));
+                        
+                        return (
+                          <div
+                            key={qrKey}
+                            id={`qr-entry-${fileIndex}-${qrIndex}`}
+                            onClick={() => handleSelectQR({ fileIndex, qrIndex }, 'list')}
+                            className={`bg-slate-700 rounded-lg p-4 cursor-pointer transition-shadow ${
+                              selectedQR?.fileIndex === fileIndex && selectedQR?.qrIndex === qrIndex
+                                ? 'ring-2 ring-yellow-400'
+                                : ''
+                            }`}
+                          >
+                            <div className="flex justify-between items-start gap-4">
+                              <div className="flex-1 min-w-0"> {/* min-w-0 for text truncation */}
+                                <div className="flex items-center gap-2 mb-2">
+                                  <QrCode className="w-4 h-4 text-indigo-400 flex-shrink-0" />
+                                  <span className="text-sm font-medium text-slate-300">
+                                    {result.totalPages !== undefined ? `Page ${qr.page}` : 'QR Code'}
+                                  </span>
+                                  {qr.location && thumbnails.length > 0 && (
+                                    <span className="text-xs text-slate-500">#{qrIndex + 1}</span>
+                                  )}
+                                  <span className="text-xs text-slate-500 bg-slate-800 rounded px-2 py-0.5">
+                                    {qr.format.replace(/_/g, ' ')} · {qr.engine}
+                                  </span>
+                                  {qr.pdfSource && (
+                                    <span className="text-xs text-slate-500 bg-slate-800 rounded px-2 py-0.5">
+                                      {qr.pdfSource === 'embedded-image' ? 'embedded image' : 'page render'}
+                                    </span>
+                                  )}
+                                  {qr.strategy && (
+                                    <span className="text-xs text-slate-500 bg-slate-800 rounded px-2 py-0.5" title="Strategy that decoded this code">
+                                      {qr.strategy}
+                                    </span>
+                                  )}
+                                  {qr.frame && (
+                                    <span className="text-xs text-slate-500 bg-slate-800 rounded px-2 py-0.5" title="Animation frame the code was found in">
+                                      frame {qr.frame}
+                                    </span>
+                                  )}
+                                  {urlRisks.length > 0 && (
+                                    <span
+                                      className="flex items-center gap-1 text-xs text-amber-300 bg-amber-900/40 rounded px-2 py-0.5"
+                                      title={urlRisks.map(risk => risk.message).join('\n')}
+                                    >
+                                      <AlertTriangle className="w-3 h-3" />
+                                      suspicious link
+                                    </span>
+                                  )}
+                                </div>
+                                <div className="bg-slate-900 rounded p-3 font-mono text-sm text-slate-200 break-all">
+                                  {qr.metadata?.isBinary
+                                    ? <span className="text-slate-400">Binary payload ({qr.metadata.rawBytes?.length} bytes), see details</span>
+                                    : parseQRData(qr.data)}
+                                </div>
+                                {qr.metadata && <QRDetailsPanel metadata={qr.metadata} />}
                               </div>
+                              <button
+                                onClick={() => handleCopy(qr.data, fileIndex, qrIndex)}
+                                className="flex items-center gap-1 px-3 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex-shrink-0"
+                                aria-label={`Copy QR code data from page ${qr.page}`}
+                              >
+                                {copiedInfo?.fileIndex === fileIndex && copiedInfo?.qrIndex === qrIndex ? (
+                                  <><Check className="w-4 h-4" /> Copied</>
+                                ) : (
+                                  <><Copy className="w-4 h-4" /> Copy</>
+                                )}
+                              </button>
                             </div>
-                            <button
-                              onClick={() => handleCopy(qr.data, fileIndex, qrIndex)}
-                              className="flex items-center gap-1 px-3 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex-shrink-0"
-                              aria-label={`Copy QR code data from page ${qr.page}`}
-                            >
-                              {copiedInfo?.fileIndex === fileIndex && copiedInfo?.qrIndex === qrIndex ? (
-                                <><Check className="w-4 h-4" /> Copied</>
-                              ) : (
-                                <><Copy className="w-4 h-4" /> Copy</>
-                              )}
-                            </button>
                           </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-
-                {/* Show helpful message for files with no QR codes */}
-                {result.status === 'no_qr_found' && (
-                  <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-3 text-center">
-                    <p className="text-yellow-200 text-sm">
-                      No QR codes were detected in this file. Make sure QR codes are clear and well-lit.
-                    </p>
-                  </div>
-                )}
+                        );
+                      })}
+                    </div>
+                  )}
 
-                {/* Show error details */}
-                {result.status === 'error' && (
-                  <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3">
-                    <p className="text-red-200 text-sm font-mono break-words">{result.error || 'Unknown error occurred'}</p>
-                  </div>
-                )}
-              </div>
-            );
-          }).filter(Boolean)} {/* Remove null entries */}
+                  {/* Show helpful message for files with no QR codes */}
+                  {result.status === 'no_qr_found' && (
+                    <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-3 text-center">
+                      <p className="text-yellow-200 text-sm">
+                        No QR codes were detected in this file. Make sure QR codes are clear and well-lit.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Show error details */}
+                  {result.status === 'error' && (
+                    <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3">
+                      <p className="text-red-200 text-sm font-mono break-words">{result.error || 'Unknown error occurred'}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            }).filter(Boolean)} {/* Remove null entries */}
+          </div>
         </div>
 
         {/* Show summary if no valid results */}
@@ -719,31 +1011,75 @@ const App: React.FC = () => {
       case 'idle':
       default:
         return (
-          <div
-            onDrop={handleDrop}
-            onDragOver={handleDragEvents}
-            onDragEnter={handleDragEvents}
-            onDragLeave={handleDragEvents}
-            className={`relative block w-full rounded-lg border-2 border-dashed p-12 text-center transition-colors ${isDragging ? 'border-indigo-500 bg-slate-800/50' : 'border-slate-700 hover:border-slate-500'}`}
-          >
-            <input {...{
-              id: "file-upload",
-              name: "file-upload",
-              type: "file",
-              className: "sr-only",
-              accept: ".pdf,image/png,image/jpeg,image/webp",
-              onChange: handleFileChange,
-              multiple: true
-            }} />
-            <label htmlFor="file-upload" className="cursor-pointer">
-              <UploadCloud className="mx-auto h-12 w-12 text-slate-500" />
-              <span className="mt-2 block text-lg font-semibold text-white">
-                Drop PDF or image files here or click to upload
-              </span>
-              <span className="mt-1 block text-sm text-slate-400">
-                Supports bulk uploads of PDF, PNG, JPG, and WEBP files.
-              </span>
-            </label>
+          <div className="space-y-4">
+            <div
+              onDrop={handleDrop}
+              onDragOver={handleDragEvents}
+              onDragEnter={handleDragEvents}
+              onDragLeave={handleDragEvents}
+              className={`relative block w-full rounded-lg border-2 border-dashed p-12 text-center transition-colors ${isDragging ? 'border-indigo-500 bg-slate-800/50' : 'border-slate-700 hover:border-slate-500'}`}
+            >
+              <input {...{
+                id: "file-upload",
+                name: "file-upload",
+                type: "file",
+                className: "sr-only",
+                accept: `${ACCEPTED_FILE_TYPES},.zip,application/zip`,
+                onChange: handleFileChange,
+                multiple: true
+              }} />
+              <label htmlFor="file-upload" className="cursor-pointer">
+                <UploadCloud className="mx-auto h-12 w-12 text-slate-500" />
+                <span className="mt-2 block text-lg font-semibold text-white">
+                  Drop PDF or image files here or click to upload
+                </span>
+                <span className="mt-1 block text-sm text-slate-400">
+                  Supports bulk uploads of PDF, multi-page TIFF, PNG, JPG, WEBP, BMP, HEIC, SVG and animated GIF/APNG files, whole folders and ZIP archives. You can also paste an image with Ctrl+V.
+                </span>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <input {...{
+                id: "folder-upload",
+                type: "file",
+                className: "sr-only",
+                webkitdirectory: "",
+                onChange: handleFolderInputChange
+              }} />
+              <button
+                type="button"
+                onClick={handleChooseFolder}
+                className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Choose folder
+              </button>
+              <span className="text-xs text-slate-500">Every supported file in the folder and its subfolders is decoded, including those inside ZIP archives</span>
+            </div>
+            {isScreenCaptureSupported() && (
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <button
+                  type="button"
+                  onClick={handleScreenCapture}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors"
+                >
+                  <Image className="w-4 h-4" />
+                  Capture screen or window
+                </button>
+                <span className="text-xs text-slate-500">Decodes a single frame of the screen, window or tab you share</span>
+                {captureError && <span className="text-xs text-red-400">{captureError}</span>}
+              </div>
+            )}
+            <DecoderEngineSelector selected={decoderEngines} onChange={setDecoderEngines} />
+            <PageRangeInput value={pageRange} onChange={setPageRange} />
+            <OptionToggle
+              label="Scan embedded PDF images at native resolution"
+              description="Decode images embedded in PDFs at their native resolution; pages without results are still rasterised"
+              enabled={extractEmbeddedImages}
+              onChange={setExtractEmbeddedImages}
+            />
+            <DetectionProfileSelector profile={detectionProfile} onChange={setDetectionProfile} />
+            <PreprocessingPipelineEditor pipelines={preprocessing} onChange={setPreprocessing} />
           </div>
         );
     }
@@ -784,12 +1120,24 @@ const App: React.FC = () => {
             >
               QR Generator
             </button>
+            <button
+              onClick={() => setActiveTab('camera')}
+              className={`px-6 py-2 rounded-md font-medium transition-all ${
+                activeTab === 'camera'
+                  ? 'bg-indigo-600 text-white shadow-lg'
+                  : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              Live Camera
+            </button>
           </div>
         </div>
 
         <main className="bg-slate-800/50 rounded-xl shadow-2xl p-6 sm:p-8 border border-slate-700 backdrop-blur-sm">
           {activeTab === 'decoder' ? (
             renderContent()
+          ) : activeTab === 'camera' ? (
+            <CameraScanner engines={decoderEngines} />
           ) : (
             <div>
               <div className="flex justify-between items-center mb-6">
@@ -806,6 +1154,7 @@ const App: React.FC = () => {
                 qrs={generatedQRs}
                 onDelete={handleDeleteGeneratedQR}
                 copiedId={copiedGeneratedId}
+                copyFailedId={copyFailedGeneratedId}
                 onCopy={handleCopyGeneratedQR}
               />
             </div>
@@ -824,6 +1173,15 @@ const App: React.FC = () => {
           onClose={() => setShowGenerationForm(false)}
         />
       )}
+
+      {showCsvSettings && (
+        <CsvExportSettingsDialog
+          settings={csvSettings}
+          results={resultStats.filteredResults}
+          onSave={handleSaveCsvSettings}
+          onClose={() => setShowCsvSettings(false)}
+        />
+      )}
     </div>
   );
 };
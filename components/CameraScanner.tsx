@@ -0,0 +1,246 @@
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { CameraScan, DecodedFileResult, DecodedQR, DecoderEngineId } from '../types';
+import { Camera, Download, Trash2 } from './icons';
+import { OptionToggle } from './OptionToggle';
+import { toPolygonPoints } from './ResultsOverlayViewer';
+import { CAMERA_PROFILE, cameraScanKey, FrameLoop, mergeFrameIntoSession, startFrameLoop } from '../services/cameraSession';
+import { exportCameraSessionToCsv } from '../services/export';
+import { parseQRData } from '../services/qrParser.tsx';
+import { primeScanFeedback, signalNewScan } from '../services/scanFeedback';
+
+const MAX_FRAME_DIMENSION = 1280;
+
+interface CameraScannerProps {
+  engines: DecoderEngineId[];
+}
+
+export const CameraScanner: React.FC<CameraScannerProps> = memo(({ engines }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const frameLoopRef = useRef<FrameLoop | null>(null);
+  const taskIdRef = useRef(0);
+  const scansRef = useRef<CameraScan[]>([]); // Read synchronously per frame, ahead of the state update
+  const continuousRef = useRef(true);
+
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [continuous, setContinuous] = useState(true);
+  const [scans, setScans] = useState<CameraScan[]>([]);
+  const [detections, setDetections] = useState<DecodedQR[]>([]);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    continuousRef.current = continuous;
+  }, [continuous]);
+
+  const stopCamera = useCallback(() => {
+    frameLoopRef.current?.stop();
+    frameLoopRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setIsScanning(false);
+    setDetections([]);
+  }, []);
+
+  const handleFrameResult = useCallback((result: DecodedFileResult) => {
+    frameLoopRef.current?.frameDone();
+    // A result that arrives after stopping would redraw outlines over an empty viewfinder
+    if (!streamRef.current) return;
+    setDetections(result.qrs);
+    if (result.qrs.length === 0) return;
+
+    const { scans: nextScans, newCodes } = mergeFrameIntoSession(scansRef.current, result.qrs, Date.now());
+    scansRef.current = nextScans;
+    setScans(nextScans);
+
+    if (newCodes.length > 0) {
+      signalNewScan();
+      // Single-shot mode stops at the first new code
+      if (!continuousRef.current) stopCamera();
+    }
+  }, [stopCamera]);
+
+  const getWorker = useCallback((): Worker => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../services/qrWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent) => {
+        if (event.data.type === 'result') {
+          handleFrameResult(event.data.payload);
+        } else if (event.data.type === 'error' || event.data.type === 'cancelled') {
+          frameLoopRef.current?.frameDone();
+        }
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleFrameResult]);
+
+  const captureFrame = useCallback((): { imageData: ImageData; scale: number } | null => {
+    const video = videoRef.current;
+    if (!video || video.readyState < video.HAVE_CURRENT_DATA) return null;
+
+    const { videoWidth, videoHeight } = video;
+    if (videoWidth === 0 || videoHeight === 0) return null;
+    setVideoSize(prev => prev.width === videoWidth && prev.height === videoHeight ? prev : { width: videoWidth, height: videoHeight });
+
+    const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(videoWidth, videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(videoWidth * scale);
+    canvas.height = Math.round(videoHeight * scale);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return { imageData: context.getImageData(0, 0, canvas.width, canvas.height), scale };
+  }, []);
+
+  // renderScale maps the detected corners back to video pixels for the overlay
+  const sendFrame = useCallback(({ imageData, scale }: { imageData: ImageData; scale: number }) => {
+    getWorker().postMessage(
+      { type: 'imageData', taskId: ++taskIdRef.current, imageData, pageNum: 1, renderScale: scale },
+      [imageData.data.buffer]
+    );
+  }, [getWorker]);
+
+  const startCamera = useCallback(async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('Camera access is not available in this browser. Camera scanning needs HTTPS or localhost.');
+      return;
+    }
+    primeScanFeedback();
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      getWorker().postMessage({ type: 'configure', options: { engines, profile: CAMERA_PROFILE } });
+      setIsScanning(true);
+      frameLoopRef.current = startFrameLoop(captureFrame, sendFrame);
+    } catch (e) {
+      stopCamera();
+      setError(e instanceof DOMException && e.name === 'NotAllowedError'
+        ? 'Camera permission was denied. Allow camera access for this site and try again.'
+        : `Could not start the camera: ${e instanceof Error ? e.message : 'unknown error'}`);
+    }
+  }, [engines, getWorker, captureFrame, sendFrame, stopCamera]);
+
+  // Engine changes apply to the running session too
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'configure', options: { engines, profile: CAMERA_PROFILE } });
+  }, [engines]);
+
+  useEffect(() => () => {
+    stopCamera();
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, [stopCamera]);
+
+  const clearSession = () => {
+    scansRef.current = [];
+    setScans([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-2xl font-bold text-indigo-400">Live Camera Scanning</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <OptionToggle
+            label="Continuous"
+            description="Keep scanning after each new code; when off, scanning stops at the first new code"
+            enabled={continuous}
+            onChange={setContinuous}
+          />
+          <button
+            onClick={isScanning ? stopCamera : startCamera}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            <Camera className="w-5 h-5" />
+            {isScanning ? 'Stop Camera' : 'Start Camera'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-400 bg-red-900/20 border border-red-800 rounded-lg px-4 py-3">{error}</p>
+      )}
+
+      <div className={`relative bg-black rounded-lg overflow-hidden ${isScanning ? '' : 'hidden'}`}>
+        <video ref={videoRef} playsInline muted className="w-full h-auto" />
+        {videoSize.width > 0 && (
+          <svg viewBox={`0 0 ${videoSize.width} ${videoSize.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            {detections.filter(qr => qr.location).map(qr => (
+              <polygon
+                key={cameraScanKey(qr) + toPolygonPoints(qr.location!)}
+                points={toPolygonPoints(qr.location!)}
+                fill="rgba(34, 197, 94, 0.2)"
+                stroke="#22c55e"
+                strokeWidth={Math.max(2, videoSize.width / 200)}
+              />
+            ))}
+          </svg>
+        )}
+      </div>
+
+      {!isScanning && !error && (
+        <p className="text-center text-slate-400 py-8">
+          Start the camera and point it at a code. Frames are decoded on this device and never uploaded.
+        </p>
+      )}
+
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-semibold text-white">
+            Session ({scans.length} code{scans.length !== 1 ? 's' : ''})
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={() => exportCameraSessionToCsv(scans)}
+              disabled={scans.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-md text-sm transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+            <button
+              onClick={clearSession}
+              disabled={scans.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-md text-sm transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear
+            </button>
+          </div>
+        </div>
+        {scans.length === 0 ? (
+          <p className="text-sm text-slate-500">Codes seen by the camera are listed here, newest first.</p>
+        ) : (
+          <ul className="space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar pr-2">
+            {scans.map(scan => (
+              <li key={cameraScanKey(scan)} className="bg-slate-700 rounded-lg p-3">
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                  <span>{scan.format.replace(/_/g, ' ')} · {scan.engine}</span>
+                  <span>
+                    {new Date(scan.firstSeen).toLocaleTimeString()}
+                    {scan.sightings > 1 && ` · seen in ${scan.sightings} frames`}
+                  </span>
+                </div>
+                <div className="font-mono text-sm text-slate-200 break-all">{parseQRData(scan.data)}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,78 @@
+import React, { memo, useMemo, useState } from 'react';
+import { UrlRiskReason } from '../types';
+import { AlertTriangle } from './icons';
+import { analyzeUrlRisk } from '../services/urlRisk';
+
+interface UrlRiskWarningProps {
+  reasons: UrlRiskReason[];
+}
+
+export const UrlRiskWarning: React.FC<UrlRiskWarningProps> = memo(({ reasons }) => (
+  <div className="font-sans mt-2 rounded border border-amber-700/60 bg-amber-900/30 px-3 py-2 text-xs text-amber-200">
+    <p className="flex items-center gap-1.5 font-semibold text-amber-300">
+      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+      Suspicious link
+    </p>
+    <ul className="mt-1 list-disc pl-5 space-y-0.5">
+      {reasons.map(reason => <li key={reason.check}>{reason.message}</li>)}
+    </ul>
+  </div>
+));
+
+interface CheckedLinkProps {
+  url: string;
+  displayText?: string; // Label shown instead of the URL, e.g. a bookmark title; checked against the real host
+  className?: string;
+}
+
+// Flagged links get no href, so middle-click, modifier clicks, the context menu and dragging cannot open them;
+// they open only from the confirmation
+export const CheckedLink: React.FC<CheckedLinkProps> = memo(({ url, displayText, className = 'text-indigo-400 hover:underline' }) => {
+  const reasons = useMemo(() => analyzeUrlRisk(url, displayText), [url, displayText]);
+  const [confirming, setConfirming] = useState(false);
+
+  if (reasons.length === 0) {
+    return <a href={url} target="_blank" rel="noopener noreferrer" className={className}>{displayText ?? url}</a>;
+  }
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Results rows select their code on click; opening a link should not
+    e.stopPropagation();
+    setConfirming(true);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleClick}
+        className="text-left break-all text-amber-300 underline decoration-dotted hover:decoration-solid"
+      >
+        {displayText ?? url}
+      </button>
+      <UrlRiskWarning reasons={reasons} />
+      {confirming && (
+        <div className="font-sans mt-2 flex flex-wrap items-center gap-2 text-xs" onClick={(e) => e.stopPropagation()}>
+          <span className="text-slate-300">Open <span className="font-mono break-all">{url}</span> anyway?</span>
+          <button
+            type="button"
+            onClick={() => {
+              window.open(url, '_blank', 'noopener');
+              setConfirming(false);
+            }}
+            className="px-2 py-1 bg-amber-600 hover:bg-amber-700 text-white rounded transition-colors"
+          >
+            Open anyway
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirming(false)}
+            className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-white rounded transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,247 @@
+import React, { memo, useState } from 'react';
+import { CsvColumnId, CsvExportPreset, CsvExportSettings, DecodedFileResult } from '../types';
+import { Trash2, X } from './icons';
+import {
+  BUILT_IN_CSV_PRESETS,
+  CSV_COLUMN_IDS,
+  CSV_COLUMNS,
+  CSV_DELIMITER_LABELS,
+  loadCsvPresets,
+  resolveFileNameTemplate,
+  saveCsvPresets
+} from '../services/csvSettings';
+
+interface CsvExportSettingsDialogProps {
+  settings: CsvExportSettings;
+  results: DecodedFileResult[]; // Only used to preview the file name
+  onSave: (settings: CsvExportSettings) => void;
+  onClose: () => void;
+}
+
+const DELIMITERS = Object.keys(CSV_DELIMITER_LABELS) as CsvExportSettings['delimiter'][];
+
+export const CsvExportSettingsDialog: React.FC<CsvExportSettingsDialogProps> = memo(({ settings, results, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CsvExportSettings>(settings);
+  const [userPresets, setUserPresets] = useState<CsvExportPreset[]>(loadCsvPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const presets = [...BUILT_IN_CSV_PRESETS, ...userPresets];
+  // Selected columns first in their export order, then the rest in their default order
+  const orderedColumns = [...draft.columns, ...CSV_COLUMN_IDS.filter(column => !draft.columns.includes(column))];
+
+  const update = (changes: Partial<CsvExportSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleColumn = (column: CsvColumnId) => {
+    update({
+      columns: draft.columns.includes(column)
+        ? draft.columns.filter(c => c !== column)
+        : [...draft.columns, column]
+    });
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    const columns = [...draft.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    update({ columns });
+  };
+
+  const storePresets = (next: CsvExportPreset[]) => {
+    setUserPresets(next);
+    saveCsvPresets(next);
+  };
+
+  // Saving under an existing name replaces that preset
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || BUILT_IN_CSV_PRESETS.some(preset => preset.name === name)) return;
+    storePresets([...userPresets.filter(preset => preset.name !== name), { name, settings: draft }]);
+    setPresetName('');
+  };
+
+  const isBuiltInName = BUILT_IN_CSV_PRESETS.some(preset => preset.name === presetName.trim());
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-3xl border border-slate-700 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <h2 className="text-xl font-bold text-white">CSV Export Settings</h2>
+          <button onClick={onClose} className="p-2 rounded-md hover:bg-slate-700 transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-6 text-sm">
+          <section className="space-y-3">
+            <h3 className="font-semibold text-slate-300">Presets</h3>
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.name} className="flex items-center bg-slate-700 rounded-md">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(preset.settings)}
+                    className="px-3 py-1.5 text-slate-200 hover:text-white"
+                    title="Apply this preset"
+                  >
+                    {preset.name}
+                  </button>
+                  {!preset.builtIn && (
+                    <button
+                      type="button"
+                      onClick={() => storePresets(userPresets.filter(p => p.name !== preset.name))}
+                      className="pr-2 text-slate-400 hover:text-red-400"
+                      title="Delete preset"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+                placeholder="Preset name"
+                className="w-56 px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <button
+                type="button"
+                onClick={savePreset}
+                disabled={!presetName.trim() || isBuiltInName}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-md transition-colors"
+              >
+                Save current settings as preset
+              </button>
+              {isBuiltInName && <span className="text-xs text-red-400">Built-in presets cannot be replaced</span>}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold text-slate-300">Columns</h3>
+            <ul className="space-y-1">
+              {orderedColumns.map(column => {
+                const index = draft.columns.indexOf(column);
+                const selected = index >= 0;
+                return (
+                  <li key={column} className="flex items-center gap-3 bg-slate-900/50 rounded px-3 py-1.5">
+                    <input
+                      type="checkbox"
+                      id={`csv-column-${column}`}
+                      checked={selected}
+                      onChange={() => toggleColumn(column)}
+                      className="accent-indigo-500"
+                    />
+                    <label htmlFor={`csv-column-${column}`} className={`flex-1 ${selected ? 'text-slate-200' : 'text-slate-500'}`}>
+                      {CSV_COLUMNS[column].label}
+                    </label>
+                    {selected && (
+                      <span className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(index, -1)}
+                          disabled={index === 0}
+                          className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                          aria-label={`Move ${CSV_COLUMNS[column].label} earlier`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveColumn(index, 1)}
+                          disabled={index === draft.columns.length - 1}
+                          className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                          aria-label={`Move ${CSV_COLUMNS[column].label} later`}
+                        >
+                          ↓
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          <section className="grid gap-4 sm:grid-cols-2">
+            <label className="space-y-1">
+              <span className="block text-slate-300">Delimiter</span>
+              <select
+                value={draft.delimiter}
+                onChange={(e) => update({ delimiter: e.target.value as CsvExportSettings['delimiter'] })}
+                className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white"
+              >
+                {DELIMITERS.map(delimiter => (
+                  <option key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-slate-300">Quoting</span>
+              <select
+                value={draft.quoting}
+                onChange={(e) => update({ quoting: e.target.value as CsvExportSettings['quoting'] })}
+                className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white"
+              >
+                <option value="minimal">Only when needed</option>
+                <option value="all">Every field</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-slate-300">Line endings</span>
+              <select
+                value={draft.lineEnding}
+                onChange={(e) => update({ lineEnding: e.target.value as CsvExportSettings['lineEnding'] })}
+                className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white"
+              >
+                <option value="lf">LF (macOS, Linux)</option>
+                <option value="crlf">CRLF (Windows)</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 self-end pb-1.5">
+              <input
+                type="checkbox"
+                checked={draft.includeBom}
+                onChange={(e) => update({ includeBom: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <span className="text-slate-300">UTF-8 byte order mark (needed by Excel for non-ASCII text)</span>
+            </label>
+          </section>
+
+          <section className="space-y-1">
+            <label htmlFor="csv-file-name" className="block text-slate-300">File name</label>
+            <input
+              id="csv-file-name"
+              type="text"
+              value={draft.fileNameTemplate}
+              onChange={(e) => update({ fileNameTemplate: e.target.value })}
+              className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-white font-mono"
+            />
+            <p className="text-xs text-slate-500">
+              Use {'{date}'}, {'{time}'}, {'{files}'} and {'{codes}'}. Next export: <span className="font-mono text-slate-400">{resolveFileNameTemplate(draft.fileNameTemplate, results)}</span>
+            </p>
+          </section>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-6 border-t border-slate-700">
+          {draft.columns.length === 0 && <span className="text-xs text-red-400 mr-auto">Select at least one column</span>}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.columns.length === 0}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,44 @@
+import React, { memo } from 'react';
+import { DecoderEngineId } from '../types';
+
+interface DecoderEngineSelectorProps {
+  selected: DecoderEngineId[];
+  onChange: (engines: DecoderEngineId[]) => void;
+}
+
+const ENGINE_OPTIONS: Array<{ id: DecoderEngineId; label: string; description: string }> = [
+  { id: 'jsqr', label: 'jsQR', description: 'QR codes, fastest' },
+  { id: 'zxing', label: 'ZXing', description: 'QR, DataMatrix, Aztec, PDF417 and 1D barcodes' }
+];
+
+export const DecoderEngineSelector: React.FC<DecoderEngineSelectorProps> = memo(({ selected, onChange }) => {
+  const toggleEngine = (id: DecoderEngineId) => {
+    if (selected.includes(id)) {
+      // Keep at least one engine enabled
+      if (selected.length > 1) {
+        onChange(selected.filter(engine => engine !== id));
+      }
+    } else {
+      // Preserve the canonical order so jsQR always runs first when enabled
+      onChange(ENGINE_OPTIONS.map(option => option.id).filter(engine => engine === id || selected.includes(engine)));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm">
+      <span className="text-slate-400">Decoder engines:</span>
+      {ENGINE_OPTIONS.map(option => (
+        <label key={option.id} className="flex items-center gap-2 text-slate-300 cursor-pointer" title={option.description}>
+          <input
+            type="checkbox"
+            checked={selected.includes(option.id)}
+            onChange={() => toggleEngine(option.id)}
+            className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>{option.label}</span>
+          <span className="text-xs text-slate-500 hidden sm:inline">({option.description})</span>
+        </label>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,92 @@
+import React, { memo } from 'react';
+import { DetectionProfile, DetectionProfileId, DetectionStrategy } from '../types';
+import {
+  DETECTION_PROFILE_LABELS,
+  DETECTION_PROFILES,
+  DETECTION_STRATEGY_LABELS,
+  orderStrategies
+} from '../services/detectionProfiles';
+
+interface DetectionProfileSelectorProps {
+  profile: DetectionProfile;
+  onChange: (profile: DetectionProfile) => void;
+}
+
+const PROFILE_IDS = Object.keys(DETECTION_PROFILE_LABELS) as DetectionProfileId[];
+const STRATEGIES = Object.keys(DETECTION_STRATEGY_LABELS) as DetectionStrategy[];
+
+export const DetectionProfileSelector: React.FC<DetectionProfileSelectorProps> = memo(({ profile, onChange }) => {
+  // Custom starts from whatever profile was selected, so a preset can be tweaked
+  const selectProfile = (id: DetectionProfileId) => {
+    onChange(id === 'custom' ? { ...profile, id: 'custom' } : DETECTION_PROFILES[id]);
+  };
+
+  const toggleStrategy = (strategy: DetectionStrategy) => {
+    const strategies = profile.strategies.includes(strategy)
+      ? profile.strategies.filter(s => s !== strategy)
+      : orderStrategies([...profile.strategies, strategy]);
+    onChange({ ...profile, strategies });
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-slate-400">Detection profile:</span>
+        <div className="bg-slate-800/50 rounded-lg p-1 border border-slate-700">
+          {PROFILE_IDS.map(id => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => selectProfile(id)}
+              title={DETECTION_PROFILE_LABELS[id].description}
+              className={`px-3 py-1 rounded-md transition-all ${
+                profile.id === id ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {DETECTION_PROFILE_LABELS[id].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">{DETECTION_PROFILE_LABELS[profile.id].description}</p>
+
+      {profile.id === 'custom' && (
+        <div className="bg-slate-800 rounded-md px-3 py-2 space-y-2">
+          <p className="text-xs text-slate-400">The direct scan always runs; these fallbacks follow it in this order.</p>
+          {STRATEGIES.map(strategy => (
+            <label key={strategy} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile.strategies.includes(strategy)}
+                onChange={() => toggleStrategy(strategy)}
+                className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>{DETECTION_STRATEGY_LABELS[strategy]}</span>
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={profile.stopAtFirstResult}
+              onChange={(e) => onChange({ ...profile, stopAtFirstResult: e.target.checked })}
+              className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Stop at the first strategy that finds a code</span>
+          </label>
+          <label className="flex items-center gap-2 text-slate-300">
+            <span>Time budget per page:</span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={profile.timeBudgetMs / 1000}
+              onChange={(e) => onChange({ ...profile, timeBudgetMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+              className="w-20 px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <span className="text-xs text-slate-500">seconds (0 for no limit)</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,48 @@
+import React, { memo } from 'react';
+import { ExportFormat } from '../types';
+import { Download } from './icons';
+import { EXPORT_FORMAT_LABELS } from '../services/export';
+
+interface ExportMenuProps {
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  onExport: () => void;
+  onConfigureCsv: () => void;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+export const ExportMenu: React.FC<ExportMenuProps> = memo(({ format, onFormatChange, onExport, onConfigureCsv }) => (
+  <div className="flex items-stretch gap-2">
+    {format === 'csv' && (
+      <button
+        type="button"
+        onClick={onConfigureCsv}
+        className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm rounded-lg transition-colors"
+        title="Columns, delimiter, encoding and file name"
+      >
+        CSV settings
+      </button>
+    )}
+    <div className="flex items-stretch">
+      <select
+        value={format}
+        onChange={(e) => onFormatChange(e.target.value as ExportFormat)}
+        title={EXPORT_FORMAT_LABELS[format].description}
+        aria-label="Export format"
+        className="bg-slate-700 border border-slate-600 border-r-0 rounded-l-lg px-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      >
+        {FORMATS.map(id => (
+          <option key={id} value={id}>{EXPORT_FORMAT_LABELS[id].label}</option>
+        ))}
+      </select>
+      <button
+        onClick={onExport}
+        className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-r-lg transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+    </div>
+  </div>
+));
@@ -1,19 +1,21 @@
 import React, { memo, useCallback } from 'react';
 import { GeneratedQR } from '../types';
 import { downloadQRCode, exportGeneratedQRsToCSV } from '../services/qrGenerator';
-import { Download, Trash2, Copy, Check, Type, Globe, Mail, Phone, Wifi } from './icons';
+import { Download, Trash2, Copy, Check, Type, Globe, Mail, Phone, Wifi, X } from './icons';
 
 interface GeneratedQRsViewProps {
   qrs: GeneratedQR[];
   onDelete: (id: string) => void;
   copiedId: string | null;
-  onCopy: (data: string, id: string) => void;
+  copyFailedId: string | null; // Neither the image nor the text could be written to the clipboard
+  onCopy: (qr: GeneratedQR) => void;
 }
 
 export const GeneratedQRsView: React.FC<GeneratedQRsViewProps> = memo(({ 
   qrs, 
   onDelete, 
   copiedId, 
+  copyFailedId,
   onCopy 
 }) => {
   const getTypeIcon = (type: string) => {
@@ -117,16 +119,18 @@ export const GeneratedQRsView: React.FC<GeneratedQRsViewProps> = memo(({
                 {/* Action Buttons */}
                 <div className="flex gap-2">
                   <button
-                    onClick={() => onCopy(qr.data, qr.id)}
+                    onClick={() => onCopy(qr)}
                     className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-md transition-colors text-sm"
-                    title="Copy data to clipboard"
+                    title={copyFailedId === qr.id ? 'Clipboard access was denied by the browser' : 'Copy QR code image to clipboard'}
                   >
-                    {copiedId === qr.id ? (
+                    {copyFailedId === qr.id ? (
+                      <X className="w-4 h-4 text-red-400" />
+                    ) : copiedId === qr.id ? (
                       <Check className="w-4 h-4 text-green-400" />
                     ) : (
                       <Copy className="w-4 h-4 text-slate-300" />
                     )}
-                    Copy
+                    {copyFailedId === qr.id ? 'Copy failed' : 'Copy'}
                   </button>
                   
                   <button
@@ -0,0 +1,20 @@
+import React, { memo } from 'react';
+
+interface OptionToggleProps {
+  label: string;
+  description: string;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+export const OptionToggle: React.FC<OptionToggleProps> = memo(({ label, description, enabled, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer" title={description}>
+    <input
+      type="checkbox"
+      checked={enabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+    />
+    <span>{label}</span>
+  </label>
+));
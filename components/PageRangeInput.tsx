@@ -0,0 +1,28 @@
+import React, { memo } from 'react';
+import { validatePageRange } from '../services/pageRange';
+
+interface PageRangeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const PageRangeInput: React.FC<PageRangeInputProps> = memo(({ value, onChange }) => {
+  const error = validatePageRange(value);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label htmlFor="pdf-page-range" className="text-slate-400">PDF/TIFF pages:</label>
+      <input
+        id="pdf-page-range"
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="All pages, or e.g. 1-5, 12, 30-"
+        className={`w-64 px-3 py-1.5 bg-slate-700 border rounded-md text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent ${
+          error ? 'border-red-500' : 'border-slate-600'
+        }`}
+      />
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+});
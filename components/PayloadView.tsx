@@ -0,0 +1,264 @@
+import React, { memo, useState } from 'react';
+import { ContactPayload, CryptoPaymentPayload, EmvPaymentPayload, EventPayload, OtpPayload, ParsedPayload, WiFiSecurity } from '../types';
+import { Download, Eye, EyeOff } from './icons';
+import { CheckedLink, UrlRiskWarning } from './CheckedLink';
+import { downloadBlob } from '../services/export';
+import { EMV_ADDITIONAL_DATA_LABELS, EMV_CURRENCY_CODES } from '../services/payloadParsers';
+import { WIFI_SECURITY_LABELS } from '../services/wifiPayload';
+import { analyzeUrlRisk } from '../services/urlRisk';
+
+interface PayloadViewProps {
+  payload: ParsedPayload;
+  data: string; // Raw decoded text, offered as a .vcf or .ics download for contacts and events
+}
+
+const linkClass = 'text-indigo-400 hover:underline';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2">
+    <span className="text-slate-400 shrink-0 w-28">{label}</span>
+    <div className="min-w-0 break-words">{children}</div>
+  </div>
+);
+
+const Card: React.FC<{ title: string; action?: React.ReactNode; children: React.ReactNode }> = ({ title, action, children }) => (
+  <div className="font-sans space-y-1">
+    <div className="flex items-center justify-between gap-2">
+      <p className="font-semibold text-white">{title}</p>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+const DownloadButton: React.FC<{ data: string; fileName: string; type: string; label: string }> = ({ data, fileName, type, label }) => (
+  <button
+    type="button"
+    onClick={() => downloadBlob(new Blob([data], { type }), fileName)}
+    className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+  >
+    <Download className="w-3.5 h-3.5" />
+    {label}
+  </button>
+);
+
+const LinkList: React.FC<{ values: string[]; scheme: string }> = ({ values, scheme }) => (
+  <>
+    {values.map((value, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && ', '}
+        <a href={`${scheme}${value}`} className={linkClass}>{value}</a>
+      </React.Fragment>
+    ))}
+  </>
+);
+
+// Only http(s) links are made clickable; other schemes in contact URLs are shown as text
+const SafeLink: React.FC<{ url: string }> = ({ url }) => /^https?:\/\//i.test(url)
+  ? <CheckedLink url={url} />
+  : <>{url}</>;
+
+const fileNameFor = (name: string | undefined, fallback: string, extension: string) =>
+  `${(name || fallback).replace(/[\\/:*?"<>|]/g, '-').trim() || fallback}.${extension}`;
+
+const ContactView: React.FC<{ payload: ContactPayload; data: string }> = ({ payload, data }) => (
+  <Card
+    title={payload.name || 'Contact'}
+    action={payload.source === 'vcard' && (
+      <DownloadButton data={data} fileName={fileNameFor(payload.name, 'contact', 'vcf')} type="text/vcard" label="Save .vcf" />
+    )}
+  >
+    {payload.organization && <Field label="Organization">{payload.organization}</Field>}
+    {payload.title && <Field label="Title">{payload.title}</Field>}
+    {payload.phones.length > 0 && <Field label="Phone"><LinkList values={payload.phones} scheme="tel:" /></Field>}
+    {payload.emails.length > 0 && <Field label="Email"><LinkList values={payload.emails} scheme="mailto:" /></Field>}
+    {payload.urls.map((url, i) => <Field key={i} label="Website"><SafeLink url={url} /></Field>)}
+    {payload.addresses.map((address, i) => <Field key={i} label="Address">{address}</Field>)}
+    {payload.birthday && <Field label="Birthday">{payload.birthday}</Field>}
+    {payload.note && <Field label="Note"><span className="whitespace-pre-wrap">{payload.note}</span></Field>}
+  </Card>
+);
+
+const formatEventDate = (date: Date, allDay: boolean) =>
+  allDay ? date.toLocaleDateString() : date.toLocaleString();
+
+const EventView: React.FC<{ payload: EventPayload; data: string }> = ({ payload, data }) => (
+  <Card
+    title={payload.summary || 'Calendar event'}
+    action={<DownloadButton data={data} fileName={fileNameFor(payload.summary, 'event', 'ics')} type="text/calendar" label="Save .ics" />}
+  >
+    {payload.start && <Field label="Starts">{formatEventDate(payload.start, payload.allDay)}</Field>}
+    {payload.end && <Field label="Ends">{formatEventDate(payload.end, payload.allDay)}</Field>}
+    {payload.location && <Field label="Location">{payload.location}</Field>}
+    {payload.description && <Field label="Description"><span className="whitespace-pre-wrap">{payload.description}</span></Field>}
+  </Card>
+);
+
+const CryptoView: React.FC<{ payload: CryptoPaymentPayload }> = ({ payload }) => {
+  const shown = new Set(['amount', 'value', 'label', 'message']);
+  const otherParameters = Object.entries(payload.parameters).filter(([key]) => !shown.has(key));
+  return (
+    <Card title={payload.currency === 'bitcoin' ? 'Bitcoin payment request' : 'Ethereum payment request'}>
+      <Field label="Address"><span className="font-mono break-all">{payload.address}</span></Field>
+      {payload.amount && <Field label="Amount">{payload.amount} {payload.currency === 'bitcoin' ? 'BTC' : 'wei'}</Field>}
+      {payload.chainId && <Field label="Chain ID">{payload.chainId}</Field>}
+      {payload.functionName && <Field label="Contract call">{payload.functionName}</Field>}
+      {payload.label && <Field label="Label">{payload.label}</Field>}
+      {payload.message && <Field label="Message">{payload.message}</Field>}
+      {otherParameters.map(([key, value]) => (
+        <Field key={key} label={key}><span className="font-mono break-all">{value}</span></Field>
+      ))}
+    </Card>
+  );
+};
+
+// The secret is enough to clone the authenticator, so it stays hidden until asked for
+const OtpView: React.FC<{ payload: OtpPayload }> = ({ payload }) => {
+  const [showSecret, setShowSecret] = useState(false);
+  return (
+    <Card title={`${payload.type === 'totp' ? 'Time-based' : 'Counter-based'} one-time password`}>
+      {payload.issuer && <Field label="Issuer">{payload.issuer}</Field>}
+      {payload.account && <Field label="Account">{payload.account}</Field>}
+      <Field label="Secret">
+        <span className="inline-flex items-center gap-2">
+          <span className="font-mono break-all">{showSecret ? payload.secret : '•'.repeat(12)}</span>
+          <button
+            type="button"
+            onClick={() => setShowSecret(!showSecret)}
+            className="text-slate-400 hover:text-white"
+            aria-label={showSecret ? 'Hide secret' : 'Show secret'}
+          >
+            {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+        </span>
+      </Field>
+      <Field label="Parameters">
+        {payload.algorithm}, {payload.digits} digits
+        {payload.period !== undefined && `, every ${payload.period}s`}
+        {payload.counter !== undefined && `, counter ${payload.counter}`}
+      </Field>
+    </Card>
+  );
+};
+
+const EmvView: React.FC<{ payload: EmvPaymentPayload }> = ({ payload }) => {
+  const currency = payload.currency && (EMV_CURRENCY_CODES[payload.currency] || payload.currency);
+  return (
+    <Card
+      title={payload.merchantName || 'EMV payment code'}
+      action={
+        <span className={`text-xs px-2 py-0.5 rounded ${payload.crcValid ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
+          {payload.crcValid ? 'Checksum valid' : 'Checksum invalid'}
+        </span>
+      }
+    >
+      {(payload.merchantCity || payload.countryCode) && (
+        <Field label="Location">
+          {[payload.merchantCity, payload.postalCode, payload.countryCode].filter(Boolean).join(', ')}
+        </Field>
+      )}
+      <Field label="Amount">
+        {payload.amount ? `${payload.amount} ${currency || ''}` : `Entered by payer${currency ? ` (${currency})` : ''}`}
+      </Field>
+      {payload.initiation && <Field label="Type">{payload.initiation === 'static' ? 'Static (reusable)' : 'Dynamic (single payment)'}</Field>}
+      {payload.categoryCode && <Field label="Category code">{payload.categoryCode}</Field>}
+      {payload.merchantAccounts.map(account => (
+        <Field key={account.tag} label={`Account ${account.tag}`}>
+          <span className="font-mono break-all">
+            {account.identifier && <span className="text-slate-300">{account.identifier} </span>}
+            {Object.entries(account.fields)
+              .filter(([subTag]) => !account.identifier || subTag !== '00')
+              .map(([, value]) => value)
+              .join(' · ')}
+          </span>
+        </Field>
+      ))}
+      {Object.entries(payload.additionalData).map(([subTag, value]) => (
+        <Field key={subTag} label={EMV_ADDITIONAL_DATA_LABELS[subTag] || `Additional ${subTag}`}>{value}</Field>
+      ))}
+    </Card>
+  );
+};
+
+export const PayloadView: React.FC<PayloadViewProps> = memo(({ payload, data }) => {
+  switch (payload.kind) {
+    case 'url':
+      return payload.title
+        ? (
+          <Card title="Bookmark">
+            <Field label="Title"><CheckedLink url={payload.url} displayText={payload.title} /></Field>
+            <Field label="Opens"><span className="font-mono break-all">{payload.url}</span></Field>
+          </Card>
+        )
+        : <CheckedLink url={payload.url} />;
+    case 'phone':
+      return <a href={`tel:${payload.number}`} className={linkClass}>Call: {payload.number}</a>;
+    case 'sms':
+      return (
+        <Card title="Text message">
+          <Field label="To"><LinkList values={payload.numbers} scheme="sms:" /></Field>
+          {payload.message && <Field label="Message"><span className="whitespace-pre-wrap">{payload.message}</span></Field>}
+        </Card>
+      );
+    case 'email':
+      return (
+        <Card title="Email">
+          <Field label="To"><LinkList values={payload.to} scheme="mailto:" /></Field>
+          {payload.cc.length > 0 && <Field label="Cc">{payload.cc.join(', ')}</Field>}
+          {payload.bcc.length > 0 && <Field label="Bcc">{payload.bcc.join(', ')}</Field>}
+          {payload.subject && <Field label="Subject">{payload.subject}</Field>}
+          {payload.body && <Field label="Body"><span className="whitespace-pre-wrap">{payload.body}</span></Field>}
+        </Card>
+      );
+    case 'wifi':
+      return (
+        <Card title="Wi-Fi Network">
+          <Field label="SSID">{payload.ssid || 'N/A'}</Field>
+          <Field label="Password">{payload.password || 'N/A'}</Field>
+          {payload.security && (
+            <Field label="Security">{WIFI_SECURITY_LABELS[payload.security as WiFiSecurity] || payload.security}</Field>
+          )}
+          {payload.hidden && <Field label="Hidden">Yes</Field>}
+          {payload.eapMethod && <Field label="EAP method">{[payload.eapMethod, payload.phase2].filter(Boolean).join(' / ')}</Field>}
+          {payload.identity && <Field label="Identity">{payload.identity}</Field>}
+          {payload.anonymousIdentity && <Field label="Anonymous identity">{payload.anonymousIdentity}</Field>}
+        </Card>
+      );
+    case 'geo': {
+      const { latitude, longitude } = payload;
+      return (
+        <Card title="Location">
+          <Field label="Coordinates">
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={linkClass}
+            >
+              {latitude}, {longitude}
+            </a>
+          </Field>
+          {payload.altitude !== undefined && <Field label="Altitude">{payload.altitude} m</Field>}
+          {payload.query && <Field label="Search">{payload.query}</Field>}
+        </Card>
+      );
+    }
+    case 'contact':
+      return <ContactView payload={payload} data={data} />;
+    case 'event':
+      return <EventView payload={payload} data={data} />;
+    case 'crypto':
+      return <CryptoView payload={payload} />;
+    case 'otp':
+      return <OtpView payload={payload} />;
+    case 'emv':
+      return <EmvView payload={payload} />;
+    case 'text': {
+      // javascript: and data: payloads are never linked, but still get flagged
+      const reasons = analyzeUrlRisk(payload.text);
+      return reasons.length > 0
+        ? <div>{payload.text}<UrlRiskWarning reasons={reasons} /></div>
+        : <>{payload.text}</>;
+    }
+  }
+});
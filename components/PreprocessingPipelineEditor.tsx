@@ -0,0 +1,66 @@
+import React, { memo } from 'react';
+import { PreprocessingPipeline } from '../types';
+import { describePipeline } from '../services/preprocessing';
+
+interface PreprocessingPipelineEditorProps {
+  pipelines: PreprocessingPipeline[];
+  onChange: (pipelines: PreprocessingPipeline[]) => void;
+}
+
+export const PreprocessingPipelineEditor: React.FC<PreprocessingPipelineEditorProps> = memo(({ pipelines, onChange }) => {
+  const toggle = (index: number) => {
+    onChange(pipelines.map((pipeline, i) => i === index ? { ...pipeline, enabled: !pipeline.enabled } : pipeline));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pipelines.length) return;
+    const reordered = [...pipelines];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const enabledCount = pipelines.filter(pipeline => pipeline.enabled).length;
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer text-slate-400 hover:text-slate-200 select-none">
+        Preprocessing ({enabledCount} of {pipelines.length} pipelines, tried in order when a direct scan finds nothing)
+      </summary>
+      <ol className="mt-2 space-y-1">
+        {pipelines.map((pipeline, index) => (
+          <li key={pipeline.id} className="flex items-center gap-3 bg-slate-800 rounded-md px-3 py-2">
+            <input
+              type="checkbox"
+              checked={pipeline.enabled}
+              onChange={() => toggle(index)}
+              className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+              aria-label={`Enable ${describePipeline(pipeline.steps)}`}
+            />
+            <span className={`flex-1 text-xs ${pipeline.enabled ? 'text-slate-200' : 'text-slate-500'}`}>
+              {describePipeline(pipeline.steps)}
+            </span>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === pipelines.length - 1}
+              className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+});
@@ -0,0 +1,69 @@
+import React, { memo } from 'react';
+import { QRMetadata } from '../types';
+
+interface QRDetailsPanelProps {
+  metadata: QRMetadata;
+}
+
+const HEX_DUMP_MAX_BYTES = 512;
+
+const formatHexDump = (bytes: number[]): string => {
+  const rows: string[] = [];
+  const visible = bytes.slice(0, HEX_DUMP_MAX_BYTES);
+
+  for (let offset = 0; offset < visible.length; offset += 16) {
+    const row = visible.slice(offset, offset + 16);
+    const hex = row.map(b => b.toString(16).padStart(2, '0')).join(' ').padEnd(47, ' ');
+    const ascii = row.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    rows.push(`${offset.toString(16).padStart(4, '0')}  ${hex}  ${ascii}`);
+  }
+
+  if (bytes.length > HEX_DUMP_MAX_BYTES) {
+    rows.push(`... ${bytes.length - HEX_DUMP_MAX_BYTES} more bytes`);
+  }
+  return rows.join('\n');
+};
+
+export const QRDetailsPanel: React.FC<QRDetailsPanelProps> = memo(({ metadata }) => {
+  const rows: Array<[string, string]> = [
+    ['Version', metadata.version !== undefined
+      ? `${metadata.version} (${17 + 4 * metadata.version}×${17 + 4 * metadata.version} modules)`
+      : 'Unknown'],
+    ['Error correction', metadata.errorCorrectionLevel ?? 'Unknown'],
+    ['Mask pattern', metadata.maskPattern !== undefined ? String(metadata.maskPattern) : 'Unknown'],
+    ['Segments', !metadata.segments
+      ? 'Unknown'
+      : metadata.segments.length > 0
+        ? metadata.segments
+            .map(segment => segment.mode === 'eci' ? `eci ${segment.eciAssignment}` : `${segment.mode} ×${segment.length}`)
+            .join(', ')
+        : 'None'],
+    ['Charset', metadata.eci !== undefined ? `${metadata.charset ?? 'Unknown'} (ECI ${metadata.eci})` : metadata.charset ?? 'Unknown'],
+    ['Payload', metadata.rawBytes
+      ? `${metadata.rawBytes.length} byte${metadata.rawBytes.length !== 1 ? 's' : ''}${metadata.isBinary ? ', binary' : ''}`
+      : 'Unknown']
+  ];
+
+  return (
+    <details className="mt-2 group" onClick={(e) => e.stopPropagation()}>
+      <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-200 select-none">
+        Details
+      </summary>
+      <div className="mt-2 bg-slate-900 rounded p-3 space-y-3">
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-slate-500">{label}</dt>
+              <dd className="text-slate-200 font-mono break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        {metadata.rawBytes && metadata.rawBytes.length > 0 && (
+          <pre className="text-[11px] leading-snug text-slate-300 font-mono overflow-x-auto custom-scrollbar">
+            {formatHexDump(metadata.rawBytes)}
+          </pre>
+        )}
+      </div>
+    </details>
+  );
+});
@@ -1,22 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef, memo } from 'react';
-import { QRGenerationData, WiFiCredentials } from '../types';
+import { QRGenerationData, WiFiCredentials, WiFiSecurity, QRSettings } from '../types';
 import { Type, Globe, Mail, Phone, Wifi, X, Download, Copy, Check, Eye, EyeOff } from './icons';
 import { generateQRCodeWithSettings } from '../services/qrGenerator';
+import { EAP_METHODS, EAP_PHASE2_METHODS, getEscapedWifiFields, WIFI_SECURITY_LABELS } from '../services/wifiPayload';
 
 interface QRGenerationFormProps {
-  onGenerate: (data: QRGenerationData) => void;
+  onGenerate: (data: QRGenerationData, settings: QRSettings) => void;
   onClose: () => void;
 }
 
-interface QRSettings {
-  foregroundColor: string;
-  backgroundColor: string;
-  size: number;
-  margin: number;
-  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H';
-  quality: 'low' | 'medium' | 'high';
-}
-
 export const QRGenerationForm: React.FC<QRGenerationFormProps> = memo(({ onGenerate, onClose }) => {
   const [selectedType, setSelectedType] = useState<'text' | 'url' | 'email' | 'phone' | 'wifi'>('text');
   const [textContent, setTextContent] = useState('');
@@ -34,8 +26,10 @@ export const QRGenerationForm: React.FC<QRGenerationFormProps> = memo(({ onGener
     ssid: '',
     password: '',
     security: 'WPA',
-    hidden: false
+    hidden: false,
+    eapMethod: EAP_METHODS[0]
   });
+  const escapedWifiFields = getEscapedWifiFields(wifiCredentials);
 
   const [qrSettings, setQRSettings] = useState<QRSettings>({
     foregroundColor: '#000000',
@@ -154,7 +148,7 @@ export const QRGenerationForm: React.FC<QRGenerationFormProps> = memo(({ onGener
       type: selectedType,
       content,
       displayName: displayName.trim() || undefined
-    });
+    }, qrSettings);
 
     // Reset form
     setTextContent('');
@@ -326,12 +320,12 @@ export const QRGenerationForm: React.FC<QRGenerationFormProps> = memo(({ onGener
                     <div className="flex gap-4">
                       <select
                         value={wifiCredentials.security}
-                        onChange={(e) => setWifiCredentials(prev => ({ ...prev, security: e.target.value as 'WPA' | 'WEP' | 'nopass' }))}
+                        onChange={(e) => setWifiCredentials(prev => ({ ...prev, security: e.target.value as WiFiSecurity }))}
                         className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                       >
-                        <option value="WPA">WPA/WPA2</option>
-                        <option value="WEP">WEP</option>
-                        <option value="nopass">No Password</option>
+                        {(Object.keys(WIFI_SECURITY_LABELS) as WiFiSecurity[]).map(security => (
+                          <option key={security} value={security}>{WIFI_SECURITY_LABELS[security]}</option>
+                        ))}
                       </select>
                       <label className="flex items-center gap-2 text-slate-300">
                         <input
@@ -343,6 +337,46 @@ export const QRGenerationForm: React.FC<QRGenerationFormProps> = memo(({ onGener
                         Hidden
                       </label>
                     </div>
+                    {wifiCredentials.security === 'WPA2-EAP' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <select
+                          value={wifiCredentials.eapMethod}
+                          onChange={(e) => setWifiCredentials(prev => ({ ...prev, eapMethod: e.target.value }))}
+                          aria-label="EAP method"
+                          className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        >
+                          {EAP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                        </select>
+                        <select
+                          value={wifiCredentials.phase2 || ''}
+                          onChange={(e) => setWifiCredentials(prev => ({ ...prev, phase2: e.target.value || undefined }))}
+                          aria-label="Phase 2 authentication"
+                          className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        >
+                          <option value="">No phase 2</option>
+                          {EAP_PHASE2_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          value={wifiCredentials.identity || ''}
+                          onChange={(e) => setWifiCredentials(prev => ({ ...prev, identity: e.target.value }))}
+                          placeholder="Identity"
+                          className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                        <input
+                          type="text"
+                          value={wifiCredentials.anonymousIdentity || ''}
+                          onChange={(e) => setWifiCredentials(prev => ({ ...prev, anonymousIdentity: e.target.value }))}
+                          placeholder="Anonymous identity (optional)"
+                          className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                      </div>
+                    )}
+                    {escapedWifiFields.length > 0 && (
+                      <p className="text-xs text-amber-400">
+                        {escapedWifiFields.join(', ')} {escapedWifiFields.length > 1 ? 'contain' : 'contains'} \ ; , : or " and will be escaped with a backslash. Current phone cameras read this correctly, but some older scanner apps may not.
+                      </p>
+                    )}
                   </div>
                 )}
 
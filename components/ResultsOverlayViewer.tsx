@@ -0,0 +1,113 @@
+import React, { memo } from 'react';
+import { DecodedFileResult, PageThumbnail, QRLocation } from '../types';
+
+export interface QRSelection {
+  fileIndex: number;
+  qrIndex: number;
+}
+
+interface ResultsOverlayViewerProps {
+  results: DecodedFileResult[];
+  thumbnails: PageThumbnail[];
+  selected: QRSelection | null;
+  onSelect: (selection: QRSelection) => void;
+}
+
+export const toPolygonPoints = (location: QRLocation): string =>
+  [location.topLeft, location.topRight, location.bottomRight, location.bottomLeft]
+    .map(point => `${point.x},${point.y}`)
+    .join(' ');
+
+export const ResultsOverlayViewer: React.FC<ResultsOverlayViewerProps> = memo(({
+  results,
+  thumbnails,
+  selected,
+  onSelect
+}) => {
+  if (thumbnails.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-slate-500 py-12">
+        No previews available for these files.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {results.map((result, fileIndex) => {
+        const pages = thumbnails
+          .filter(thumbnail => thumbnail.fileName === (result.relativePath ?? result.fileName))
+          .sort((a, b) => a.page - b.page);
+
+        if (pages.length === 0) return null;
+
+        return (
+          <div key={`viewer-${result.fileName}-${fileIndex}`}>
+            <h3 className="text-sm font-semibold text-slate-300 mb-2 break-words">{result.relativePath ?? result.fileName}</h3>
+            <div className="space-y-4">
+              {pages.map(thumbnail => {
+                // Keep the original qrIndex so selections match the results list
+                const pageQRs = result.qrs
+                  .map((qr, qrIndex) => ({ qr, qrIndex }))
+                  .filter(({ qr }) => qr.page === thumbnail.page && qr.location);
+                const strokeWidth = Math.max(thumbnail.width, thumbnail.height) * 0.006;
+                const fontSize = Math.max(thumbnail.width, thumbnail.height) * 0.03;
+
+                return (
+                  <div key={`page-${thumbnail.page}`} className="bg-slate-900 rounded-lg p-2 border border-slate-700">
+                    {pages.length > 1 && (
+                      <p className="text-xs text-slate-500 mb-1">Page {thumbnail.page}</p>
+                    )}
+                    <div className="relative">
+                      <img
+                        src={thumbnail.url}
+                        alt={`Preview of ${result.fileName} page ${thumbnail.page}`}
+                        className="w-full h-auto rounded"
+                      />
+                      <svg
+                        viewBox={`0 0 ${thumbnail.width} ${thumbnail.height}`}
+                        preserveAspectRatio="none"
+                        className="absolute inset-0 w-full h-full"
+                      >
+                        {pageQRs.map(({ qr, qrIndex }) => {
+                          const isSelected = selected?.fileIndex === fileIndex && selected?.qrIndex === qrIndex;
+                          const box = qr.location!.boundingBox;
+
+                          return (
+                            <g
+                              key={`outline-${qrIndex}`}
+                              id={`qr-outline-${fileIndex}-${qrIndex}`}
+                              onClick={() => onSelect({ fileIndex, qrIndex })}
+                              className="cursor-pointer"
+                            >
+                              <title>{qr.data}</title>
+                              <polygon
+                                points={toPolygonPoints(qr.location!)}
+                                fill={isSelected ? 'rgba(250, 204, 21, 0.25)' : 'rgba(99, 102, 241, 0.15)'}
+                                stroke={isSelected ? '#facc15' : '#818cf8'}
+                                strokeWidth={strokeWidth}
+                              />
+                              <text
+                                x={box.x}
+                                y={box.y - strokeWidth * 2}
+                                fontSize={fontSize}
+                                fill={isSelected ? '#facc15' : '#818cf8'}
+                                fontWeight="bold"
+                              >
+                                {qrIndex + 1}
+                              </text>
+                            </g>
+                          );
+                        })}
+                      </svg>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
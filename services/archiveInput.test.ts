@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { expandArchives } from './archiveInput';
+
+const zipFile = (name: string, bytes: Uint8Array) => ({ file: new File([bytes], name) });
+
+// Incompressible bytes (xorshift32), so deflated entries keep their size
+const noise = (length: number): Uint8Array => {
+  let state = 2463534242;
+  return new Uint8Array(length).map(() => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return state & 0xff;
+  });
+};
+
+describe('expandArchives', () => {
+  it('keeps decodable entries and nested archives, in natural order, and skips the rest', async () => {
+    const nested = zipSync({ 'back.png': strToU8('png') });
+    const archive = zipSync({
+      'scan-10.pdf': [new Uint8Array(50000).fill(7), { level: 6 }],
+      'scan-2.jpg': [strToU8('jpg'), { level: 0 }],
+      'notes.txt': strToU8('not an image'),
+      '__MACOSX/._scan-2.jpg': strToU8('resource fork'),
+      'inner.zip': nested
+    });
+
+    const files = await expandArchives([zipFile('scans.zip', archive)]);
+
+    expect(files.map(input => input.relativePath)).toEqual([
+      'scans.zip/inner.zip/back.png',
+      'scans.zip/scan-2.jpg',
+      'scans.zip/scan-10.pdf'
+    ]);
+    expect(files.map(input => input.file.size)).toEqual([3, 3, 50000]);
+  });
+
+  it('stops at an entry that cannot be inflated and reports the archive, without an unhandled rejection', async () => {
+    const archive = zipSync({
+      // Large entries are inflated in fflate's workers, so their errors arrive asynchronously
+      'broken.png': [noise(512 * 1024), { level: 6 }],
+      'later.png': [new Uint8Array(4 * 1024 * 1024).fill(1), { level: 0 }]
+    });
+    // Garble the start of the first entry's deflate stream, just after its 30-byte header and name
+    archive.fill(0xff, 30 + 'broken.png'.length, 30 + 'broken.png'.length + 16);
+
+    // Hand the archive over in small chunks, a few milliseconds apart, as a large file on disk would arrive
+    const chunkSize = 64 * 1024;
+    let chunksRead = 0;
+    const file = new File([archive], 'bad.zip');
+    Object.defineProperty(file, 'stream', {
+      value: () => new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          const chunk = archive.subarray(chunksRead * chunkSize, (chunksRead + 1) * chunkSize);
+          chunksRead++;
+          if (chunk.length > 0) controller.enqueue(chunk);
+          else controller.close();
+        }
+      })
+    });
+
+    const [result] = await expandArchives([{ file }]);
+
+    expect(result.relativePath).toBeUndefined();
+    expect(result.error).toMatch(/^Could not read ZIP archive/);
+    expect(chunksRead).toBeLessThan(archive.length / chunkSize);
+  });
+});
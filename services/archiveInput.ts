@@ -0,0 +1,195 @@
+import { AsyncUnzipInflate, Unzip, UnzipFile, UnzipPassThrough } from 'fflate';
+import { hasSupportedExtension } from './imageFormats';
+
+// A file to decode, with where it came from when it was inside a dropped folder or ZIP archive
+export interface InputFile {
+  file: File;
+  relativePath?: string; // e.g. "receipts.zip/2024/03/receipt-001.pdf"
+  error?: string; // Set when an archive could not be read
+}
+
+const MAX_ARCHIVE_DEPTH = 3; // ZIPs inside ZIPs, e.g. a yearly archive of monthly ones
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+interface FilePickerHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+}
+
+interface DirectoryPickerHandle {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterableIterator<FilePickerHandle | DirectoryPickerHandle>;
+}
+
+type DirectoryPicker = () => Promise<DirectoryPickerHandle>;
+
+const getDirectoryPicker = (): DirectoryPicker | undefined =>
+  typeof window !== 'undefined' ? (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker : undefined;
+
+// macOS resource forks, dotfiles and folder entries are never worth decoding
+const isJunkPath = (path: string): boolean =>
+  path.endsWith('/') || path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Anything else in an archive is skipped without being inflated
+const isWantedEntry = (path: string): boolean =>
+  !isJunkPath(path) && (hasSupportedExtension(path) || path.toLowerCase().endsWith('.zip'));
+
+const baseName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+// Natural order, so "receipt-2" comes before "receipt-10" as it does in file managers
+const byPath = (a: InputFile, b: InputFile): number =>
+  (a.relativePath ?? a.file.name).localeCompare(b.relativePath ?? b.file.name, undefined, { numeric: true });
+
+const isZip = async (file: File): Promise<boolean> => {
+  const header = new Uint8Array(await file.slice(0, ZIP_SIGNATURE.length).arrayBuffer());
+  return ZIP_SIGNATURE.every((byte, index) => header[index] === byte);
+};
+
+const readEntry = (entry: UnzipFile, lastModified: number): Promise<File> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    entry.ondata = (error, chunk, final) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      chunks.push(chunk);
+      if (final) resolve(new File(chunks, baseName(entry.name), { lastModified }));
+    };
+    entry.start();
+  });
+
+// Streams the archive instead of reading it whole, and inflates wanted entries in fflate's workers
+// so large archives of scans neither block the UI nor hold skipped entries in memory
+const unzipFile = async (file: File): Promise<Array<[string, File]>> => {
+  const entries: Array<{ path: string; read: Promise<File> }> = [];
+  const started: UnzipFile[] = [];
+  let failure: { error: unknown } | undefined;
+  const unzipper = new Unzip(entry => {
+    if (!isWantedEntry(entry.name)) return;
+    started.push(entry);
+    const read = readEntry(entry, file.lastModified);
+    // Noted as soon as it happens, so a bad entry stops the read instead of going unhandled until the end
+    read.catch(error => {
+      failure ??= { error };
+    });
+    entries.push({ path: entry.name, read });
+  });
+  unzipper.register(UnzipPassThrough);
+  unzipper.register(AsyncUnzipInflate);
+
+  const reader = file.stream().getReader();
+  try {
+    for (let chunk = await reader.read(); ; chunk = await reader.read()) {
+      if (failure) throw failure.error;
+      unzipper.push(chunk.value ?? new Uint8Array(0), chunk.done);
+      if (chunk.done) break;
+    }
+    return await Promise.all(entries.map(async ({ path, read }): Promise<[string, File]> => [path, await read]));
+  } catch (error) {
+    // A truncated or corrupt archive: stop reading it and the workers still inflating its entries
+    reader.cancel().catch(() => undefined);
+    started.forEach(entry => entry.terminate());
+    throw error;
+  }
+};
+
+const expandZip = async (input: InputFile, depth: number): Promise<InputFile[]> => {
+  const archivePath = input.relativePath ?? input.file.name;
+  const entries = await unzipFile(input.file);
+  const files = entries.map(([path, file]) => ({ file, relativePath: `${archivePath}/${path}` }));
+  return expandArchives(files.sort(byPath), depth + 1);
+};
+
+// Replace ZIP archives with the files inside them; unreadable archives are kept with an error to report
+export const expandArchives = async (inputs: InputFile[], depth = 0): Promise<InputFile[]> => {
+  const expanded: InputFile[] = [];
+  for (const input of inputs) {
+    if (depth >= MAX_ARCHIVE_DEPTH || !await isZip(input.file)) {
+      expanded.push(input);
+      continue;
+    }
+    try {
+      expanded.push(...await expandZip(input, depth));
+    } catch (error) {
+      expanded.push({ ...input, error: `Could not read ZIP archive: ${error instanceof Error ? error.message : 'unknown error'}` });
+    }
+  }
+  return expanded;
+};
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry): Promise<InputFile[]> => {
+  if (entry.isFile) {
+    return [{ file: await readEntryFile(entry as FileSystemFileEntry), relativePath: entry.fullPath.replace(/^\//, '') }];
+  }
+
+  // Each readEntries call returns one batch (100 entries in Chrome) until an empty one
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  for (let batch = await readDirectoryBatch(reader); batch.length > 0; batch = await readDirectoryBatch(reader)) {
+    children.push(...batch.filter(child => !isJunkPath(child.name)));
+  }
+
+  const files: InputFile[] = [];
+  for (const child of children) {
+    files.push(...await walkEntry(child));
+  }
+  return files.sort(byPath);
+};
+
+// Dropped folders are walked recursively; loose files keep no relative path
+export const readDroppedFiles = (dataTransfer: DataTransfer): Promise<InputFile[]> => {
+  // Entries must be taken synchronously, before the drop event's data store is cleared
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  const files = Array.from(dataTransfer.files);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Promise.resolve(files.map(file => ({ file })));
+  }
+
+  return Promise.all(entries.map(async (entry): Promise<InputFile[]> => entry!.isFile
+    ? [{ file: await readEntryFile(entry as FileSystemFileEntry) }]
+    : walkEntry(entry!)
+  )).then(groups => groups.flat());
+};
+
+const walkDirectoryHandle = async (handle: DirectoryPickerHandle, path: string): Promise<InputFile[]> => {
+  const files: InputFile[] = [];
+  for await (const child of handle.values()) {
+    if (isJunkPath(child.name)) continue;
+    const childPath = `${path}/${child.name}`;
+    if (child.kind === 'file') {
+      files.push({ file: await child.getFile(), relativePath: childPath });
+    } else {
+      files.push(...await walkDirectoryHandle(child, childPath));
+    }
+  }
+  return files.sort(byPath);
+};
+
+export const isDirectoryPickerSupported = (): boolean => typeof getDirectoryPicker() === 'function';
+
+// File System Access API folder picker; rejects with an AbortError when the user cancels
+export const pickDirectoryFiles = async (): Promise<InputFile[]> => {
+  const picker = getDirectoryPicker();
+  if (!picker) throw new Error('Folder selection is not supported in this browser.');
+  const handle = await picker();
+  return walkDirectoryHandle(handle, handle.name);
+};
+
+// Fallback for browsers without the picker: an <input webkitdirectory> reports paths itself
+export const fromDirectoryInput = (files: FileList): InputFile[] =>
+  Array.from(files)
+    .filter(file => !isJunkPath(file.webkitRelativePath || file.name))
+    .map(file => ({ file, relativePath: file.webkitRelativePath || undefined }))
+    .sort(byPath);
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CameraScan, DecodedFileResult, DecodedQR } from '../types';
+import { CAMERA_PROFILE, FRAME_INTERVAL_MS, mergeFrameIntoSession, startFrameLoop } from './cameraSession';
+import { loadDecoderWorker, renderCodes, sendToWorker } from './testHelpers';
+
+const code = (data: string): DecodedQR => ({ data, page: 1, format: 'QR_CODE', engine: 'jsqr' });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('startFrameLoop', () => {
+  it('sends one frame per interval and skips ticks while a frame is being decoded', () => {
+    vi.useFakeTimers();
+    const captureFrame = vi.fn(() => 'frame');
+    const sendFrame = vi.fn();
+    const loop = startFrameLoop(captureFrame, sendFrame);
+
+    vi.advanceTimersByTime(FRAME_INTERVAL_MS * 5);
+    expect(sendFrame).toHaveBeenCalledTimes(1);
+    expect(captureFrame).toHaveBeenCalledTimes(1);
+
+    loop.frameDone();
+    vi.advanceTimersByTime(FRAME_INTERVAL_MS);
+    expect(sendFrame).toHaveBeenCalledTimes(2);
+
+    loop.stop();
+    loop.frameDone();
+    vi.advanceTimersByTime(FRAME_INTERVAL_MS * 5);
+    expect(sendFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it('tries again on the next tick when no frame is ready', () => {
+    vi.useFakeTimers();
+    const captureFrame = vi.fn().mockReturnValueOnce(null).mockReturnValue('frame');
+    const sendFrame = vi.fn();
+    const loop = startFrameLoop(captureFrame, sendFrame);
+
+    vi.advanceTimersByTime(FRAME_INTERVAL_MS);
+    expect(sendFrame).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(FRAME_INTERVAL_MS);
+    expect(sendFrame).toHaveBeenCalledWith('frame');
+    loop.stop();
+  });
+});
+
+describe('mergeFrameIntoSession', () => {
+  it('adds new payloads first and counts further sightings of known ones', () => {
+    const first = mergeFrameIntoSession([], [code('a'), code('b')], 1000);
+    expect(first.newCodes.map(qr => qr.data)).toEqual(['a', 'b']);
+
+    const second = mergeFrameIntoSession(first.scans, [code('b'), code('c')], 2000);
+    expect(second.newCodes.map(qr => qr.data)).toEqual(['c']);
+    expect(second.scans.map(scan => [scan.data, scan.sightings, scan.firstSeen, scan.lastSeen])).toEqual([
+      ['c', 1, 2000, 2000],
+      ['a', 1, 1000, 1000],
+      ['b', 2, 1000, 2000]
+    ]);
+  });
+
+  it('counts the same payload twice in one frame once', () => {
+    const { scans, newCodes } = mergeFrameIntoSession([], [code('shelf'), code('shelf')], 1000);
+
+    expect(newCodes).toHaveLength(1);
+    expect(scans).toHaveLength(1);
+  });
+});
+
+describe('camera frames through the decoder worker', () => {
+  it('decodes every code in throttled frames and keeps one session entry per payload', async () => {
+    const postMessage = await loadDecoderWorker();
+    sendToWorker({ type: 'configure', options: { engines: ['jsqr'], profile: CAMERA_PROFILE } });
+
+    // A synthetic camera that shows the same two shelf labels in every frame
+    const frame = () => renderCodes(750, 350, [
+      { text: 'SHELF-A1', x: 0, y: 0, moduleSize: 3 },
+      { text: 'SHELF-A2', x: 150, y: 0, moduleSize: 5 }
+    ]);
+    let scans: CameraScan[] = [];
+    let framesDecoded = 0;
+    let taskId = 0;
+    const loop = startFrameLoop(frame, imageData => {
+      sendToWorker({ type: 'imageData', taskId: ++taskId, imageData, pageNum: 1, renderScale: 1 });
+    }, 20);
+    postMessage.mockImplementation(({ type, payload }: { type: string; payload: DecodedFileResult }) => {
+      if (type !== 'result') return;
+      scans = mergeFrameIntoSession(scans, payload.qrs, Date.now()).scans;
+      framesDecoded++;
+      loop.frameDone();
+    });
+
+    try {
+      await vi.waitFor(() => expect(framesDecoded).toBeGreaterThanOrEqual(3), { timeout: 30000 });
+    } finally {
+      loop.stop();
+    }
+
+    expect(scans.map(scan => scan.data).sort()).toEqual(['SHELF-A1', 'SHELF-A2']);
+    // Both labels were read in every frame, not just the first one found
+    expect(scans.every(scan => scan.sightings === framesDecoded)).toBe(true);
+  });
+});
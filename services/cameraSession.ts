@@ -0,0 +1,70 @@
+import { CameraScan, DecodedQR, DetectionProfile } from '../types';
+import { DETECTION_PROFILES } from './detectionProfiles';
+
+export const FRAME_INTERVAL_MS = 200; // At most five frames a second, and never more than one in flight
+
+// Live frames keep coming, so a frame that needs the slow fallbacks is better skipped than waited on;
+// every code in a frame is still wanted, e.g. a whole warehouse shelf at once
+export const CAMERA_PROFILE: DetectionProfile = { ...DETECTION_PROFILES.fast, timeBudgetMs: 250, stopAtFirstResult: false };
+
+export const cameraScanKey = (qr: Pick<DecodedQR, 'format' | 'data'>) => `${qr.format}\u0000${qr.data}`;
+
+export interface FrameLoop {
+  stop: () => void;
+  frameDone: () => void; // Call when the worker has answered, so the next tick sends a frame again
+}
+
+// Capture and send a frame every interval, skipping ticks while the previous frame is still being decoded
+export const startFrameLoop = <T>(
+  captureFrame: () => T | null,
+  sendFrame: (frame: T) => void,
+  intervalMs = FRAME_INTERVAL_MS
+): FrameLoop => {
+  let inFlight = false;
+  const timer = setInterval(() => {
+    if (inFlight) return;
+    const frame = captureFrame();
+    if (frame === null) return;
+    inFlight = true;
+    sendFrame(frame);
+  }, intervalMs);
+
+  return {
+    stop: () => clearInterval(timer),
+    frameDone: () => {
+      inFlight = false;
+    }
+  };
+};
+
+// Add a frame's codes to the session: new payloads go first, ones already seen get another sighting.
+// The same payload twice in one frame counts once
+export const mergeFrameIntoSession = (
+  scans: CameraScan[],
+  qrs: DecodedQR[],
+  now: number
+): { scans: CameraScan[]; newCodes: DecodedQR[] } => {
+  const frameKeys = new Set(qrs.map(cameraScanKey));
+  const seenKeys = new Set(scans.map(cameraScanKey));
+  const newCodes = qrs.filter(qr => {
+    const key = cameraScanKey(qr);
+    if (seenKeys.has(key)) return false;
+    seenKeys.add(key);
+    return true;
+  });
+
+  return {
+    scans: [
+      ...newCodes.map(qr => ({
+        data: qr.data,
+        format: qr.format,
+        engine: qr.engine,
+        firstSeen: now,
+        lastSeen: now,
+        sightings: 1
+      })),
+      ...scans.map(scan => frameKeys.has(cameraScanKey(scan)) ? { ...scan, lastSeen: now, sightings: scan.sightings + 1 } : scan)
+    ],
+    newCodes
+  };
+};
@@ -0,0 +1,108 @@
+type Rgb = [number, number, number];
+
+// Each variant turns the source into a dark-on-light grayscale image the engines can read
+export interface ColorVariant {
+  id: string;
+  create: () => ImageData | null; // Null when the image has no such variant
+}
+
+const SAMPLE_TARGET = 10000;
+const KMEANS_ITERATIONS = 8;
+const DOMINANT_COLOURS = 3; // Code, its background and the surrounding page
+const MIN_CLUSTER_SHARE = 0.02;
+const DARK_MEAN_LUMINANCE = 100;
+
+const luminanceOf = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const mapPixels = (imageData: ImageData, toGray: (r: number, g: number, b: number) => number): ImageData => {
+  const { data, width, height } = imageData;
+  const output = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    output[i] = output[i + 1] = output[i + 2] = toGray(data[i], data[i + 1], data[i + 2]);
+    output[i + 3] = 255;
+  }
+  return new ImageData(output, width, height);
+};
+
+export const invertImageData = (imageData: ImageData): ImageData =>
+  mapPixels(imageData, (r, g, b) => 255 - luminanceOf(r, g, b));
+
+// Light-on-dark artwork usually leaves the whole image dark on average
+export const isMostlyDark = (imageData: ImageData): boolean => {
+  const { data } = imageData;
+  const stride = Math.max(1, Math.floor(data.length / 4 / SAMPLE_TARGET)) * 4;
+  let sum = 0;
+  let samples = 0;
+  for (let i = 0; i < data.length; i += stride) {
+    sum += luminanceOf(data[i], data[i + 1], data[i + 2]);
+    samples++;
+  }
+  return samples > 0 && sum / samples < DARK_MEAN_LUMINANCE;
+};
+
+const colourDistance = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const nearestIndex = (colour: Rgb, centres: Rgb[]) => {
+  let nearest = 0;
+  centres.forEach((centre, index) => {
+    if (colourDistance(colour, centre) < colourDistance(colour, centres[nearest])) nearest = index;
+  });
+  return nearest;
+};
+
+// k-means on sampled pixels, seeded with the darkest, the lightest and then the most distant samples
+const dominantColours = (imageData: ImageData): Rgb[] => {
+  const { data } = imageData;
+  const stride = Math.max(1, Math.floor(data.length / 4 / SAMPLE_TARGET)) * 4;
+  const samples: Rgb[] = [];
+  for (let i = 0; i < data.length; i += stride) samples.push([data[i], data[i + 1], data[i + 2]]);
+  if (samples.length === 0) return [];
+
+  const byLuminance = [...samples].sort((a, b) => luminanceOf(...a) - luminanceOf(...b));
+  const centres: Rgb[] = [byLuminance[0], byLuminance[byLuminance.length - 1]];
+  while (centres.length < DOMINANT_COLOURS) {
+    const farthest = samples.reduce((best, sample) =>
+      Math.min(...centres.map(c => colourDistance(sample, c))) > Math.min(...centres.map(c => colourDistance(best, c))) ? sample : best);
+    centres.push(farthest);
+  }
+
+  let counts: number[] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centres.map(() => [0, 0, 0]);
+    counts = centres.map(() => 0);
+    samples.forEach(sample => {
+      const nearest = nearestIndex(sample, centres);
+      sums[nearest][0] += sample[0];
+      sums[nearest][1] += sample[1];
+      sums[nearest][2] += sample[2];
+      counts[nearest]++;
+    });
+    sums.forEach(([r, g, b], index) => {
+      if (counts[index] > 0) centres[index] = [r / counts[index], g / counts[index], b / counts[index]];
+    });
+  }
+  // Drop clusters that only caught noise, or duplicated another when the image has fewer colours
+  return centres.filter((_, index) => counts[index] >= samples.length * MIN_CLUSTER_SHARE);
+};
+
+// Nearest-cluster binarisation in RGB: pixels whose closest k-means centre is the chosen ink turn black, everything else white
+const inkBinarize = (imageData: ImageData, centres: Rgb[], ink: number): ImageData =>
+  mapPixels(imageData, (r, g, b) => nearestIndex([r, g, b], centres) === ink ? 0 : 255);
+
+// Ordered cheapest and most likely first: plain inversion covers white-on-navy and similar.
+// Each dominant colour is tried as the ink, which also separates codes whose colours share a brightness.
+export const createColorVariants = (imageData: ImageData): ColorVariant[] => {
+  let centres: Rgb[] | undefined;
+  const getCentres = () => (centres ??= dominantColours(imageData));
+
+  return [
+    { id: 'inverted', create: () => invertImageData(imageData) },
+    ...Array.from({ length: DOMINANT_COLOURS }, (_, ink) => ({
+      id: `dominant-colour-${ink + 1}`,
+      create: () => ink < getCentres().length ? inkBinarize(imageData, getCentres(), ink) : null
+    })),
+    { id: 'red-channel', create: () => mapPixels(imageData, r => r) },
+    { id: 'green-channel', create: () => mapPixels(imageData, (_, g) => g) },
+    { id: 'blue-channel', create: () => mapPixels(imageData, (_, __, b) => b) }
+  ];
+};
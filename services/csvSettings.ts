@@ -0,0 +1,190 @@
+import { CsvColumnId, CsvExportPreset, CsvExportSettings, DecodedFileResult, DecodedQR, StrategyTiming } from '../types';
+import { formatPageRanges, getSkippedPages } from './pageRange';
+import { formatStrategyTimings } from './strategyStats';
+
+const STORAGE_KEY = 'qr-tools.csv-export';
+const DEFAULT_FILE_NAME_TEMPLATE = 'qr-code-export-{date}';
+
+interface CsvRow {
+  result: DecodedFileResult;
+  qr?: DecodedQR; // Missing for files that produced no codes
+  pageTimings: StrategyTiming[];
+}
+
+type CsvValue = string | number | undefined;
+
+export const RESULT_STATUS_LABELS: Record<DecodedFileResult['status'], string> = {
+  success: 'success',
+  no_qr_found: 'no codes found',
+  error: 'error'
+};
+
+export const CSV_COLUMNS: Record<CsvColumnId, { label: string; value: (row: CsvRow) => CsvValue }> = {
+  'file-name': { label: 'File Name', value: ({ result }) => result.fileName },
+  'relative-path': { label: 'Relative Path', value: ({ result }) => result.relativePath },
+  'parent-file': {
+    label: 'Parent Folder or Archive',
+    value: ({ result }) => result.relativePath?.slice(0, Math.max(0, result.relativePath.lastIndexOf('/')))
+  },
+  'status': { label: 'Status', value: ({ result }) => RESULT_STATUS_LABELS[result.status] },
+  'page': { label: 'Page', value: ({ qr }) => qr?.page },
+  'data': { label: 'QR Code Data', value: ({ qr }) => qr?.data },
+  'format': { label: 'Format', value: ({ qr }) => qr?.format },
+  'engine': { label: 'Engine', value: ({ qr }) => qr?.engine },
+  'found-in': { label: 'Found In', value: ({ qr }) => qr?.pdfSource },
+  // Blank for files decoded in full
+  'decoded-pages': {
+    label: 'Decoded Pages',
+    value: ({ result }) => result.pageSelection && formatPageRanges(result.pageSelection.pages)
+  },
+  'skipped-pages': {
+    label: 'Skipped Pages',
+    value: ({ result }) => result.pageSelection && formatPageRanges(getSkippedPages(result.pageSelection))
+  },
+  'strategy': { label: 'Strategy', value: ({ qr }) => qr?.strategy },
+  'frame': { label: 'Frame', value: ({ qr }) => qr?.frame },
+  'location': {
+    label: 'Location (x, y, width, height)',
+    value: ({ qr }) => {
+      const box = qr?.location?.boundingBox;
+      return box && [box.x, box.y, box.width, box.height].map(Math.round).join(', ');
+    }
+  },
+  // Timings of the page the code was found on, so strategies can be compared per page
+  'page-time': {
+    label: 'Page Time (ms)',
+    value: ({ pageTimings }) => pageTimings.length > 0 ? Math.round(pageTimings.reduce((sum, timing) => sum + timing.durationMs, 0)) : undefined
+  },
+  'page-strategy-timings': { label: 'Page Strategy Timings', value: ({ pageTimings }) => formatStrategyTimings(pageTimings) },
+  'processing-time': {
+    label: 'File Processing Time (ms)',
+    value: ({ result }) => result.processingTime !== undefined ? Math.round(result.processingTime) : undefined
+  },
+  'profile': { label: 'Detection Profile', value: ({ result }) => result.profile },
+  'error': { label: 'Error', value: ({ result }) => result.error }
+};
+
+export const CSV_COLUMN_IDS = Object.keys(CSV_COLUMNS) as CsvColumnId[];
+
+export const CSV_DELIMITER_LABELS: Record<CsvExportSettings['delimiter'], string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+export const DEFAULT_CSV_SETTINGS: CsvExportSettings = {
+  columns: ['file-name', 'relative-path', 'status', 'page', 'data', 'found-in', 'decoded-pages', 'skipped-pages', 'strategy', 'page-time', 'page-strategy-timings', 'error'],
+  delimiter: ',',
+  quoting: 'minimal',
+  includeBom: false,
+  lineEnding: 'lf',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE
+};
+
+export const BUILT_IN_CSV_PRESETS: CsvExportPreset[] = [
+  { name: 'Default', settings: DEFAULT_CSV_SETTINGS, builtIn: true },
+  // Excel in locales with a decimal comma expects semicolons, and needs the BOM to read UTF-8
+  {
+    name: 'Excel (Europe)',
+    settings: { ...DEFAULT_CSV_SETTINGS, delimiter: ';', includeBom: true, lineEnding: 'crlf' },
+    builtIn: true
+  }
+];
+
+const quoteField = (value: CsvValue, settings: CsvExportSettings): string => {
+  const text = value === undefined ? '' : String(value);
+  const needsQuotes = settings.quoting === 'all' ||
+    text.includes(settings.delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per code, plus one per file without codes so failures are not silently missing
+export const formatCsv = (results: DecodedFileResult[], settings: CsvExportSettings): string => {
+  const rows = results.flatMap((result): CsvRow[] => result.qrs.length > 0
+    ? result.qrs.map(qr => ({
+      result,
+      qr,
+      pageTimings: (result.strategyTimings || []).filter(timing => timing.page === qr.page)
+    }))
+    : [{ result, pageTimings: [] }]
+  );
+
+  const lineEnding = settings.lineEnding === 'crlf' ? '\r\n' : '\n';
+  const lines = [
+    settings.columns.map(column => quoteField(CSV_COLUMNS[column].label, settings)),
+    ...rows.map(row => settings.columns.map(column => quoteField(CSV_COLUMNS[column].value(row), settings)))
+  ].map(fields => fields.join(settings.delimiter));
+
+  return (settings.includeBom ? '\uFEFF' : '') + lines.join(lineEnding) + lineEnding;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Fills in the template tokens and strips characters that are not allowed in file names
+export const resolveFileNameTemplate = (template: string, results: DecodedFileResult[], now = new Date()): string => {
+  const tokens: Record<string, string> = {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`,
+    files: String(results.length),
+    codes: String(results.reduce((sum, result) => sum + result.qrs.length, 0))
+  };
+  const name = (template.trim() || DEFAULT_FILE_NAME_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (token, key: string) => tokens[key] ?? token)
+    .replace(/[\\/:*?"<>|\u0000-\u001F]/g, '-');
+  return name.toLowerCase().endsWith('.csv') ? name : `${name}.csv`;
+};
+
+// Stored settings may predate newer options or columns, so fall back to defaults field by field
+const sanitizeSettings = (value: unknown): CsvExportSettings => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<CsvExportSettings>;
+  const columns = Array.isArray(stored.columns)
+    ? Array.from(new Set(stored.columns.filter((column): column is CsvColumnId => CSV_COLUMN_IDS.includes(column))))
+    : DEFAULT_CSV_SETTINGS.columns;
+  return {
+    columns: columns.length > 0 ? columns : DEFAULT_CSV_SETTINGS.columns,
+    delimiter: stored.delimiter && stored.delimiter in CSV_DELIMITER_LABELS ? stored.delimiter : DEFAULT_CSV_SETTINGS.delimiter,
+    quoting: stored.quoting === 'all' ? 'all' : 'minimal',
+    includeBom: typeof stored.includeBom === 'boolean' ? stored.includeBom : DEFAULT_CSV_SETTINGS.includeBom,
+    lineEnding: stored.lineEnding === 'crlf' ? 'crlf' : 'lf',
+    fileNameTemplate: typeof stored.fileNameTemplate === 'string' ? stored.fileNameTemplate : DEFAULT_FILE_NAME_TEMPLATE
+  };
+};
+
+interface StoredCsvExport {
+  settings?: unknown;
+  presets?: unknown; // User presets only; built-in ones are not stored
+}
+
+// localStorage can be unavailable (private windows, blocked storage); settings then last for the session only
+const readStored = (): StoredCsvExport => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeStored = (update: StoredCsvExport): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStored(), ...update }));
+  } catch {
+    // Nothing to do; the settings still apply until the page is closed
+  }
+};
+
+export const loadCsvSettings = (): CsvExportSettings => sanitizeSettings(readStored().settings);
+
+export const saveCsvSettings = (settings: CsvExportSettings): void => writeStored({ settings });
+
+export const loadCsvPresets = (): CsvExportPreset[] => {
+  const { presets } = readStored();
+  if (!Array.isArray(presets)) return [];
+  return presets
+    .filter((preset): preset is CsvExportPreset => !!preset && typeof preset.name === 'string' && preset.name.trim() !== '')
+    .map(preset => ({ name: preset.name, settings: sanitizeSettings(preset.settings) }));
+};
+
+export const saveCsvPresets = (presets: CsvExportPreset[]): void =>
+  writeStored({ presets: presets.filter(preset => !preset.builtIn) });
@@ -0,0 +1,191 @@
+import jsQR, { QRCode } from 'jsqr';
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+  ResultMetadataType
+} from '@zxing/library';
+import { DecoderEngineId, QRMetadata, QRPoint } from '../types';
+import { buildQRMetadata, resolveText } from './qrMetadata';
+
+export type Corners = Pick<QRCode['location'], 'topLeftCorner' | 'topRightCorner' | 'bottomRightCorner' | 'bottomLeftCorner'>;
+
+export interface EngineDetection {
+  data: string;
+  format: string;
+  corners: Corners; // In pixels of the scanned image
+  metadata?: QRMetadata;
+}
+
+// A decoder backend finds at most one code per call; callers clear it and call again
+export interface DecoderEngine {
+  id: DecoderEngineId;
+  detect: (imageData: ImageData) => EngineDetection | null;
+}
+
+const jsqrEngine: DecoderEngine = {
+  id: 'jsqr',
+  detect: (imageData) => {
+    const code = jsQR(imageData.data, imageData.width, imageData.height, {
+      inversionAttempts: 'dontInvert'
+    });
+    if (!code) return null;
+
+    const { data, metadata } = buildQRMetadata(code, imageData);
+    return { data, format: 'QR_CODE', corners: code.location, metadata };
+  }
+};
+
+const ZXING_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.AZTEC,
+  BarcodeFormat.PDF_417,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.CODE_93,
+  BarcodeFormat.CODABAR,
+  BarcodeFormat.ITF,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E
+];
+
+const ONE_D_FORMATS = new Set([
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.CODE_93,
+  BarcodeFormat.CODABAR,
+  BarcodeFormat.ITF,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E
+]);
+
+// Finder centres sit inside the symbol, so QR outlines are grown outwards a little
+const ZXING_QR_EXPANSION = 1.3;
+const ONE_D_MIN_BAND_HEIGHT = 20;
+
+let zxingReader: MultiFormatReader | null = null;
+
+const getZxingReader = (): MultiFormatReader => {
+  if (!zxingReader) {
+    const hints = new Map<DecodeHintType, unknown>();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, ZXING_FORMATS);
+    hints.set(DecodeHintType.TRY_HARDER, true);
+    zxingReader = new MultiFormatReader();
+    zxingReader.setHints(hints);
+  }
+  return zxingReader;
+};
+
+const toLuminance = (imageData: ImageData): Uint8ClampedArray => {
+  const { data, width, height } = imageData;
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < luminance.length; i += 4, p++) {
+    luminance[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return luminance;
+};
+
+const boundingCorners = (points: QRPoint[], padX: number = 0, padY: number = 0): Corners => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs) - padX;
+  const maxX = Math.max(...xs) + padX;
+  const minY = Math.min(...ys) - padY;
+  const maxY = Math.max(...ys) + padY;
+  return {
+    topLeftCorner: { x: minX, y: minY },
+    topRightCorner: { x: maxX, y: minY },
+    bottomRightCorner: { x: maxX, y: maxY },
+    bottomLeftCorner: { x: minX, y: maxY }
+  };
+};
+
+// ZXing reports format-specific result points rather than symbol corners
+const toCorners = (format: BarcodeFormat, points: QRPoint[]): Corners => {
+  if (ONE_D_FORMATS.has(format) && points.length >= 2) {
+    // 1D readers report the ends of the scan line, so assume a band around it
+    const length = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+    return boundingCorners(points, 0, Math.max(ONE_D_MIN_BAND_HEIGHT, length * 0.25));
+  }
+
+  if (format === BarcodeFormat.QR_CODE && points.length >= 3) {
+    // Points are bottom-left, top-left and top-right finder centres
+    const [bottomLeft, topLeft, topRight] = points;
+    const bottomRight = { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y };
+    const centre = { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 };
+    const grow = (point: QRPoint): QRPoint => ({
+      x: centre.x + (point.x - centre.x) * ZXING_QR_EXPANSION,
+      y: centre.y + (point.y - centre.y) * ZXING_QR_EXPANSION
+    });
+    return {
+      topLeftCorner: grow(topLeft),
+      topRightCorner: grow(topRight),
+      bottomRightCorner: grow(bottomRight),
+      bottomLeftCorner: grow(bottomLeft)
+    };
+  }
+
+  return boundingCorners(points);
+};
+
+// ZXing reports byte-mode segments but not the segment list or charset. The bytes only describe the payload
+// when they account for all of the text; otherwise the byte, charset and binary fields stay unknown
+const toZxingMetadata = (text: string, resultMetadata: Map<ResultMetadataType, unknown> | null): QRMetadata => {
+  const byteSegments = resultMetadata?.get(ResultMetadataType.BYTE_SEGMENTS) as Uint8Array[] | undefined;
+  const eccLevel = resultMetadata?.get(ResultMetadataType.ERROR_CORRECTION_LEVEL);
+  const errorCorrectionLevel = ['L', 'M', 'Q', 'H'].includes(String(eccLevel))
+    ? String(eccLevel) as QRMetadata['errorCorrectionLevel']
+    : undefined;
+  if (!byteSegments || byteSegments.length === 0) return { errorCorrectionLevel };
+
+  const rawBytes = byteSegments.flatMap(segment => Array.from(segment));
+  const resolved = resolveText(rawBytes);
+  // ZXing reads undecodable bytes one character per byte
+  const coversPayload = resolved.text !== null ? resolved.text === text : text.length === rawBytes.length;
+  if (!coversPayload) return { errorCorrectionLevel };
+
+  return { rawBytes, errorCorrectionLevel, charset: resolved.charset, isBinary: resolved.text === null };
+};
+
+const zxingEngine: DecoderEngine = {
+  id: 'zxing',
+  detect: (imageData) => {
+    const source = new RGBLuminanceSource(toLuminance(imageData), imageData.width, imageData.height);
+    const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+    try {
+      const result = getZxingReader().decodeWithState(bitmap);
+      const format = result.getBarcodeFormat();
+      const points = (result.getResultPoints() || []).map(point => ({ x: point.getX(), y: point.getY() }));
+      if (points.length === 0) return null;
+
+      return {
+        data: result.getText(),
+        format: BarcodeFormat[format],
+        corners: toCorners(format, points),
+        metadata: toZxingMetadata(result.getText(), result.getResultMetadata())
+      };
+    } catch {
+      // Not-found, checksum and format errors all mean no readable code here
+      return null;
+    }
+  }
+};
+
+const DECODER_ENGINES: Record<DecoderEngineId, DecoderEngine> = {
+  jsqr: jsqrEngine,
+  zxing: zxingEngine
+};
+
+export const getDecoderEngines = (ids: DecoderEngineId[]): DecoderEngine[] => {
+  const engines = ids.map(id => DECODER_ENGINES[id]).filter(Boolean);
+  return engines.length > 0 ? engines : [jsqrEngine];
+};
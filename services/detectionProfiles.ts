@@ -0,0 +1,28 @@
+import { DetectionProfile, DetectionProfileId, DetectionStrategy } from '../types';
+
+export const DETECTION_STRATEGY_LABELS: Record<DetectionStrategy, string> = {
+  'tiles': 'Tiled scan',
+  'preprocessing': 'Preprocessing pipelines',
+  'scales': 'Scale variations',
+  'color': 'Inverted and coloured codes',
+  'geometry': 'Rotation and perspective recovery'
+};
+
+export const DETECTION_PROFILE_LABELS: Record<DetectionProfileId, { label: string; description: string }> = {
+  'fast': { label: 'Fast', description: 'Clean scans in bulk: direct scan, tiled on dense pages, and preprocessing only, one second per page' },
+  'balanced': { label: 'Balanced', description: 'Every fallback, tiling only dense pages, stopping at the first strategy that finds a code' },
+  'exhaustive': { label: 'Exhaustive', description: 'Tricky photos: every strategy runs, even after codes are found, for up to 30 seconds per page' },
+  'custom': { label: 'Custom', description: 'Choose the strategies, time budget and early exit yourself' }
+};
+
+export const DETECTION_PROFILES: Record<Exclude<DetectionProfileId, 'custom'>, DetectionProfile> = {
+  fast: { id: 'fast', strategies: ['preprocessing'], timeBudgetMs: 1000, stopAtFirstResult: true },
+  balanced: { id: 'balanced', strategies: ['preprocessing', 'scales', 'color', 'geometry'], timeBudgetMs: 10000, stopAtFirstResult: true },
+  exhaustive: { id: 'exhaustive', strategies: ['tiles', 'preprocessing', 'scales', 'color', 'geometry'], timeBudgetMs: 30000, stopAtFirstResult: false }
+};
+
+export const DEFAULT_DETECTION_PROFILE = DETECTION_PROFILES.balanced;
+
+// Keep strategies in cascade order whatever order they were toggled in
+export const orderStrategies = (strategies: DetectionStrategy[]): DetectionStrategy[] =>
+  (Object.keys(DETECTION_STRATEGY_LABELS) as DetectionStrategy[]).filter(strategy => strategies.includes(strategy));
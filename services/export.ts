@@ -1,35 +1,134 @@
-import { DecodedFileResult } from '../types';
-
-export const exportToCsv = (results: DecodedFileResult[]): void => {
-    const headers = ['File Name', 'Page', 'QR Code Data'];
-    const rows = results.flatMap(result => {
-        if (result.status === 'success') {
-            return result.qrs.map(qr => [
-                `"${result.fileName.replace(/"/g, '""')}"`,
-                qr.page,
-                `"${qr.data.replace(/"/g, '""')}"`
-            ]);
-        }
-        return [];
+import { CameraScan, CsvExportSettings, DecodedFileResult, ExportFormat } from '../types';
+import { formatPageRanges } from './pageRange';
+import { DEFAULT_CSV_SETTINGS, formatCsv, RESULT_STATUS_LABELS, resolveFileNameTemplate } from './csvSettings';
+import { createXlsxWorkbook, XlsxSheet } from './xlsx';
+
+const FILE_PREFIX = 'qr-code-export';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, { label: string; description: string }> = {
+    csv: { label: 'CSV', description: 'One row per code, plus one per file without codes; columns and format are configurable' },
+    json: { label: 'JSON', description: 'The full result tree, including metadata and timings' },
+    ndjson: { label: 'NDJSON', description: 'One JSON record per code or failed file, for streaming into pipelines' },
+    xlsx: { label: 'Excel (XLSX)', description: 'A summary sheet plus one sheet per file' }
+};
+
+const quote = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+const datedFileName = (filePrefix: string, extension: string): string =>
+    `${filePrefix}-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+export const exportToCsv = (results: DecodedFileResult[], settings: CsvExportSettings = DEFAULT_CSV_SETTINGS): void => {
+    if (results.length === 0) {
+        console.warn('No results to export');
+        return;
+    }
+
+    downloadBlob(
+        new Blob([formatCsv(results, settings)], { type: 'text/csv;charset=utf-8;' }),
+        resolveFileNameTemplate(settings.fileNameTemplate, results)
+    );
+};
+
+// The result tree as the decoder produced it
+export const exportToJson = (results: DecodedFileResult[]): void => {
+    const json = JSON.stringify({ exportedAt: new Date().toISOString(), results }, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), datedFileName(FILE_PREFIX, 'json'));
+};
+
+// One self-contained record per code, or per file that produced none
+export const exportToNdjson = (results: DecodedFileResult[]): void => {
+    const records = results.flatMap((result): object[] => {
+        const file = {
+            fileName: result.fileName,
+            relativePath: result.relativePath,
+            status: result.status,
+            profile: result.profile
+        };
+        return result.qrs.length > 0
+            ? result.qrs.map(qr => ({ ...file, ...qr }))
+            : [{ ...file, error: result.error }];
     });
+    const ndjson = records.map(record => JSON.stringify(record)).join('\n') + '\n';
+    downloadBlob(new Blob([ndjson], { type: 'application/x-ndjson' }), datedFileName(FILE_PREFIX, 'ndjson'));
+};
+
+const fileSheet = (result: DecodedFileResult): XlsxSheet => {
+    const rows: XlsxSheet['rows'] = [['Page', 'Format', 'Engine', 'QR Code Data', 'Found In', 'Strategy', 'Frame']];
+    result.qrs.forEach(qr => {
+        rows.push([qr.page, qr.format, qr.engine, qr.data, qr.pdfSource, qr.strategy, qr.frame]);
+    });
+    if (result.qrs.length === 0) {
+        rows.push([null, null, null, result.status === 'error' ? `Error: ${result.error || 'Unknown error'}` : 'No codes found']);
+    }
+    return { name: result.fileName, rows };
+};
+
+export const exportToXlsx = (results: DecodedFileResult[]): void => {
+    const summary: XlsxSheet = {
+        name: 'Summary',
+        rows: [
+            ['File Name', 'Relative Path', 'Status', 'Codes Found', 'Decoded Pages', 'Processing Time (ms)', 'Profile', 'Strategies', 'Error'],
+            ...results.map(result => [
+                result.fileName,
+                result.relativePath,
+                RESULT_STATUS_LABELS[result.status],
+                result.qrs.length,
+                result.pageSelection ? formatPageRanges(result.pageSelection.pages) : null,
+                result.processingTime !== undefined ? Math.round(result.processingTime) : null,
+                result.profile,
+                result.strategy,
+                result.error
+            ])
+        ]
+    };
+
+    const workbook = createXlsxWorkbook([summary, ...results.map(fileSheet)]);
+    downloadBlob(
+        new Blob([workbook], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        datedFileName(FILE_PREFIX, 'xlsx')
+    );
+};
+
+export const exportResults = (results: DecodedFileResult[], format: ExportFormat, csvSettings?: CsvExportSettings): void => {
+    switch (format) {
+        case 'csv':
+            return exportToCsv(results, csvSettings);
+        case 'json':
+            return exportToJson(results);
+        case 'ndjson':
+            return exportToNdjson(results);
+        case 'xlsx':
+            return exportToXlsx(results);
+    }
+};
+
+export const exportCameraSessionToCsv = (scans: CameraScan[]): void => {
+    const headers = ['First Seen', 'Last Seen', 'Sightings', 'Format', 'Engine', 'QR Code Data'];
+    const rows = scans.map(scan => [
+        new Date(scan.firstSeen).toISOString(),
+        new Date(scan.lastSeen).toISOString(),
+        scan.sightings,
+        scan.format,
+        scan.engine,
+        quote(scan.data)
+    ]);
 
     if (rows.length === 0) {
-        console.warn('No successful results to export');
+        console.warn('No camera scans to export');
         return;
     }
 
-    const csvContent = [
-        headers.join(','),
-        ...rows.map(row => row.join(','))
-    ].join('\n');
+    const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), datedFileName('qr-camera-session', 'csv'));
+};
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+export const downloadBlob = (blob: Blob, fileName: string): void => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
-    
+
     try {
         link.href = url;
-        link.download = `qr-code-export-${new Date().toISOString().split('T')[0]}.csv`;
+        link.download = fileName;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -37,4 +136,4 @@ export const exportToCsv = (results: DecodedFileResult[]): void => {
         // Always clean up URL to prevent memory leaks
         URL.revokeObjectURL(url);
     }
-}; 
\ No newline at end of file
+};
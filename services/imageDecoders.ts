@@ -0,0 +1,166 @@
+import type { IFD } from 'utif';
+import type { ParsedFrame } from 'gifuct-js';
+
+// Decoders for formats createImageBitmap cannot handle; libraries load on first use so plain images stay light
+const MAX_DECODED_DIMENSION = 4096;
+const MAX_CACHED_TIFFS = 2;
+export const MAX_ANIMATION_FRAMES = 30;
+
+interface TiffDocument {
+  buffer: ArrayBuffer;
+  pages: IFD[];
+}
+
+// CommonJS libraries arrive either as the module itself or wrapped in a default export, depending on the bundler
+const interopDefault = <T>(module: T): T => (module as T & { default?: T }).default ?? module;
+
+const toImageData = (rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): ImageData =>
+  new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, width * height * 4), width, height);
+
+// Frames and scans may be transparent; decoders expect dark modules on a light background
+const flattenOnWhite = (rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): ImageData => {
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < output.length; i += 4) {
+    const alpha = rgba[i + 3] / 255;
+    output[i] = rgba[i] * alpha + 255 * (1 - alpha);
+    output[i + 1] = rgba[i + 1] * alpha + 255 * (1 - alpha);
+    output[i + 2] = rgba[i + 2] * alpha + 255 * (1 - alpha);
+    output[i + 3] = 255;
+  }
+  return new ImageData(output, width, height);
+};
+
+// Resample onto a canvas, both to stretch non-square pixels and to stay within the scanning limit
+const resample = (imageData: ImageData, width: number, height: number): OffscreenCanvas => {
+  const source = new OffscreenCanvas(imageData.width, imageData.height);
+  source.getContext('2d')!.putImageData(imageData, 0, 0);
+  const scale = Math.min(1, MAX_DECODED_DIMENSION / Math.max(width, height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Evenly spaced frame indices, so long animations are sampled across their whole length
+const sampleFrameIndices = (count: number): Set<number> => {
+  if (count <= MAX_ANIMATION_FRAMES) return new Set(Array.from({ length: count }, (_, i) => i));
+  return new Set(Array.from({ length: MAX_ANIMATION_FRAMES }, (_, i) => Math.round(i * (count - 1) / (MAX_ANIMATION_FRAMES - 1))));
+};
+
+const tiffCache = new Map<string, Promise<TiffDocument>>();
+
+const readTiff = async (file: File): Promise<TiffDocument> => {
+  const UTIF = interopDefault(await import('utif'));
+  const buffer = await file.arrayBuffer();
+  // Reduced-resolution previews (NewSubfileType bit 0) are not separate pages
+  const pages = UTIF.decode(buffer).filter(ifd => !((Number((ifd.t254 as number[] | undefined)?.[0]) || 0) & 1));
+  if (pages.length === 0) throw new Error('TIFF file contains no pages.');
+  return { buffer, pages };
+};
+
+// Cached per document like PDFs, so a worker given several pages of one file parses it once
+export const loadTiffDocument = (docKey: string, file: File): Promise<TiffDocument> => {
+  let document = tiffCache.get(docKey);
+  if (document) {
+    tiffCache.delete(docKey);
+  } else {
+    document = readTiff(file);
+    document.catch(() => tiffCache.delete(docKey));
+  }
+  tiffCache.set(docKey, document);
+
+  while (tiffCache.size > MAX_CACHED_TIFFS) {
+    tiffCache.delete(tiffCache.keys().next().value!);
+  }
+  return document;
+};
+
+export const releaseAllTiffDocuments = (): void => {
+  tiffCache.clear();
+};
+
+// Decode one page; fax TIFFs often have half the vertical resolution, which squashes codes unless corrected
+export const decodeTiffPage = async (document: TiffDocument, pageNum: number): Promise<OffscreenCanvas> => {
+  const UTIF = interopDefault(await import('utif'));
+  const ifd = document.pages[pageNum - 1];
+  if (!ifd) throw new Error(`TIFF page ${pageNum} does not exist.`);
+  UTIF.decodeImage(document.buffer, ifd);
+  const imageData = flattenOnWhite(UTIF.toRGBA8(ifd), ifd.width, ifd.height);
+
+  const xResolution = ifd.t282 as number[] | undefined;
+  const yResolution = ifd.t283 as number[] | undefined;
+  const aspect = xResolution?.[0] && yResolution?.[0] ? xResolution[0] / yResolution[0] : 1;
+  return resample(imageData, ifd.width, Math.round(ifd.height * aspect));
+};
+
+export const decodeHeic = async (file: File): Promise<OffscreenCanvas> => {
+  const factory = (await import('libheif-js/libheif-wasm/libheif-bundle.mjs')).default;
+  const decoder = new (factory().HeifDecoder)();
+  const images = decoder.decode(new Uint8Array(await file.arrayBuffer()));
+  if (images.length === 0) throw new Error('Could not decode HEIC/HEIF image.');
+
+  const image = images.find(candidate => candidate.is_primary()) ?? images[0];
+  const width = image.get_width();
+  const height = image.get_height();
+  const target = { data: new Uint8ClampedArray(width * height * 4), width, height };
+  try {
+    await new Promise<void>((resolve, reject) => {
+      image.display(target, result => result ? resolve() : reject(new Error('HEIF processing error')));
+    });
+  } finally {
+    images.forEach(candidate => candidate.free());
+  }
+  return resample(toImageData(target.data, width, height), width, height);
+};
+
+export interface AnimationFrame {
+  frame: number; // 1-based position in the animation
+  imageData: ImageData;
+}
+
+// Composite GIF frames in order, honouring each frame's disposal, and keep the sampled ones
+const compositeGifFrames = (width: number, height: number, frames: ParsedFrame[]): AnimationFrame[] => {
+  const keep = sampleFrameIndices(frames.length);
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const output: AnimationFrame[] = [];
+
+  frames.forEach((frame, index) => {
+    const { left, top, width: frameWidth, height: frameHeight } = frame.dims;
+    const previous = frame.disposalType === 3 ? canvas.slice() : null;
+
+    for (let y = 0; y < frameHeight && top + y < height; y++) {
+      for (let x = 0; x < frameWidth && left + x < width; x++) {
+        const source = (y * frameWidth + x) * 4;
+        if (frame.patch[source + 3] === 0) continue;
+        canvas.set(frame.patch.subarray(source, source + 4), ((top + y) * width + left + x) * 4);
+      }
+    }
+    if (keep.has(index)) output.push({ frame: index + 1, imageData: flattenOnWhite(canvas, width, height) });
+
+    if (frame.disposalType === 2) {
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+  });
+  return output;
+};
+
+// Animated GIF and APNG frames, fully composited; long animations are sampled
+export const decodeAnimationFrames = async (file: File, format: 'gif' | 'apng'): Promise<AnimationFrame[]> => {
+  const buffer = await file.arrayBuffer();
+  if (format === 'gif') {
+    const { parseGIF, decompressFrames } = await import('gifuct-js');
+    const gif = parseGIF(buffer);
+    return compositeGifFrames(gif.lsd.width, gif.lsd.height, decompressFrames(gif, true));
+  }
+
+  const UPNG = interopDefault(await import('upng-js'));
+  const png = UPNG.decode(buffer);
+  const frames = UPNG.toRGBA8(png);
+  const keep = sampleFrameIndices(frames.length);
+  return frames.flatMap((frame, index) => keep.has(index)
+    ? [{ frame: index + 1, imageData: flattenOnWhite(new Uint8Array(frame), png.width, png.height) }]
+    : []);
+};
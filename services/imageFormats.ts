@@ -0,0 +1,100 @@
+// How an uploaded file is decoded; sniffed from its bytes because browsers often leave File.type empty for HEIC and TIFF
+export type InputFormat = 'pdf' | 'tiff' | 'heic' | 'gif' | 'apng' | 'svg' | 'raster' | 'unsupported';
+
+// File extensions worth decoding, used to skip everything else inside ZIP archives without inflating it
+const SUPPORTED_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'bmp', 'gif', 'apng', 'svg', 'tif', 'tiff', 'heic', 'heif'];
+
+export const hasSupportedExtension = (name: string): boolean =>
+  SUPPORTED_EXTENSIONS.includes(name.slice(name.lastIndexOf('.') + 1).toLowerCase());
+
+export const ACCEPTED_FILE_TYPES = [
+  '.pdf', 'image/png', 'image/jpeg', 'image/webp', 'image/bmp', 'image/gif', 'image/apng', 'image/svg+xml',
+  '.tif', '.tiff', '.heic', '.heif', '.bmp', '.gif', '.apng', '.svg'
+].join(',');
+
+const HEADER_BYTES = 64;
+const PNG_SCAN_BYTES = 256 * 1024; // acTL has to come before the first IDAT chunk
+const SVG_RASTER_MIN_DIMENSION = 1024;
+const SVG_RASTER_MAX_DIMENSION = 4096;
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs'];
+const HEIF_GENERIC_BRANDS = ['mif1', 'msf1']; // Also used by AVIF, which browsers decode natively
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Animated PNGs carry an acTL chunk before their image data; plain PNGs are left to the browser
+const isAnimatedPng = async (file: File): Promise<boolean> => {
+  const bytes = new Uint8Array(await file.slice(0, PNG_SCAN_BYTES).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'acTL') return true;
+    if (type === 'IDAT') return false;
+    offset += 12 + view.getUint32(offset);
+  }
+  return false;
+};
+
+const isHeif = (header: Uint8Array): boolean => {
+  if (ascii(header, 4, 4) !== 'ftyp') return false;
+  const boxSize = new DataView(header.buffer).getUint32(0);
+  const majorBrand = ascii(header, 8, 4);
+  const compatibleBrands: string[] = [];
+  for (let offset = 16; offset + 4 <= Math.min(boxSize, header.length); offset += 4) {
+    compatibleBrands.push(ascii(header, offset, 4));
+  }
+  if (HEIF_BRANDS.includes(majorBrand)) return true;
+  return HEIF_GENERIC_BRANDS.includes(majorBrand) &&
+    !compatibleBrands.some(brand => brand === 'avif' || brand === 'avis') &&
+    compatibleBrands.some(brand => HEIF_BRANDS.includes(brand) || HEIF_GENERIC_BRANDS.includes(brand));
+};
+
+export const detectInputFormat = async (file: File): Promise<InputFormat> => {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const signature = ascii(header, 0, 6);
+  const name = file.name.toLowerCase();
+
+  if (signature.startsWith('%PDF')) return 'pdf';
+  if (signature.startsWith('II*\u0000') || signature.startsWith('MM\u0000*')) return 'tiff';
+  if (signature === 'GIF87a' || signature === 'GIF89a') return 'gif';
+  if (signature.startsWith('\u0089PNG')) return await isAnimatedPng(file) ? 'apng' : 'raster';
+  if (isHeif(header)) return 'heic';
+  if (file.type === 'image/svg+xml' || name.endsWith('.svg') || /^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(ascii(header, 0, header.length))) {
+    return 'svg';
+  }
+  // JPEG, WebP, BMP and anything else the browser can decode itself
+  return file.type.startsWith('image/') || /\.(jpe?g|webp|bmp)$/.test(name) ? 'raster' : 'unsupported';
+};
+
+// Workers cannot rasterise SVG, so render it here at a size decoders can read and pass a PNG on
+export const rasterizeSvg = async (file: File): Promise<File> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    // SVGs without intrinsic size report 0, and tiny viewBoxes would render codes too small to read
+    const naturalWidth = image.naturalWidth || SVG_RASTER_MIN_DIMENSION;
+    const naturalHeight = image.naturalHeight || SVG_RASTER_MIN_DIMENSION;
+    const longerSide = Math.max(naturalWidth, naturalHeight);
+    const scale = Math.min(SVG_RASTER_MAX_DIMENSION, Math.max(SVG_RASTER_MIN_DIMENSION, longerSide)) / longerSide;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(naturalWidth * scale);
+    canvas.height = Math.round(naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context for SVG.');
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not rasterise SVG.');
+    // Keep the original name so results still point at the uploaded file
+    return new File([blob], file.name, { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
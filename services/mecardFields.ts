@@ -0,0 +1,39 @@
+// "KEY:value;KEY:value;;" bodies shared by MECARD, MATMSG and WIFI payloads, with backslash escapes
+
+export type MecardField = [key: string, rawValue: string];
+
+const SPECIAL_CHARACTERS = /[\\;,:"]/g;
+
+export const needsMecardEscaping = (value: string): boolean => value.search(SPECIAL_CHARACTERS) >= 0;
+
+export const escapeMecardValue = (value: string): string => value.replace(SPECIAL_CHARACTERS, '\\$&');
+
+export const unescapeMecardValue = (value: string): string => value.replace(/\\(.)/gs, '$1');
+
+// Split at the first unescaped colon; values stay escaped so callers can tell quoted from escaped quotes
+const splitField = (field: string): MecardField => {
+  const match = /^((?:[^\\:]|\\.)*):(.*)$/s.exec(field);
+  return match ? [unescapeMecardValue(match[1]).toUpperCase(), match[2]] : [unescapeMecardValue(field).toUpperCase(), ''];
+};
+
+export const splitMecardFields = (body: string): MecardField[] => {
+  const fields: MecardField[] = [];
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += char + body[++i];
+    } else if (char === ';') {
+      if (current) fields.push(splitField(current));
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) fields.push(splitField(current));
+  return fields;
+};
+
+// Unescaped, non-empty values of one key; keys are case-insensitive
+export const mecardValues = (fields: MecardField[], key: string): string[] =>
+  fields.filter(([name, value]) => name === key && value !== '').map(([, value]) => unescapeMecardValue(value));
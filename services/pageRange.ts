@@ -0,0 +1,78 @@
+import { PageSelection } from '../types';
+
+interface PageRangePart {
+  start: number;
+  end?: number; // Undefined means "to the last page"
+}
+
+// Parses "1-5, 12, 30-" style input; blank input or "all" selects every page
+const parsePageRange = (input: string): PageRangePart[] => {
+  const trimmed = input.trim();
+  if (trimmed === '' || trimmed.toLowerCase() === 'all') return [{ start: 1 }];
+
+  return trimmed.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(\d*)\s*-\s*(\d*)$|^(\d+)$/);
+    if (!match) throw new Error(`"${part}" is not a page or range`);
+
+    if (match[3]) {
+      const page = parseInt(match[3], 10);
+      if (page < 1) throw new Error('Page numbers start at 1');
+      return { start: page, end: page };
+    }
+
+    if (!match[1] && !match[2]) throw new Error(`"${part}" needs a start or end page`);
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? parseInt(match[2], 10) : undefined;
+    if (start < 1 || (end !== undefined && end < 1)) throw new Error('Page numbers start at 1');
+    if (end !== undefined && end < start) throw new Error(`"${part}" ends before it starts`);
+    return { start, end };
+  });
+};
+
+// Returns an error message for invalid input, or null when it can be used
+export const validatePageRange = (input: string): string | null => {
+  try {
+    parsePageRange(input);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid page range';
+  }
+};
+
+export const isAllPages = (input: string): boolean => {
+  const trimmed = input.trim().toLowerCase();
+  return trimmed === '' || trimmed === 'all';
+};
+
+// Sorted, de-duplicated pages within the document; pages past the end are ignored
+export const resolvePageRange = (input: string, totalPages: number): number[] => {
+  const pages = new Set<number>();
+  parsePageRange(input).forEach(({ start, end }) => {
+    const last = Math.min(end ?? totalPages, totalPages);
+    for (let page = start; page <= last; page++) pages.add(page);
+  });
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+// Collapses [1, 2, 3, 5, 7, 8] into "1-3, 5, 7-8"
+export const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  let index = 0;
+  while (index < pages.length) {
+    const start = pages[index];
+    while (index + 1 < pages.length && pages[index + 1] === pages[index] + 1) index++;
+    const end = pages[index];
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+    index++;
+  }
+  return ranges.join(', ');
+};
+
+export const getSkippedPages = (selection: PageSelection): number[] => {
+  const scanned = new Set(selection.pages);
+  const skipped: number[] = [];
+  for (let page = 1; page <= selection.totalPages; page++) {
+    if (!scanned.has(page)) skipped.push(page);
+  }
+  return skipped;
+};
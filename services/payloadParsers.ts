@@ -0,0 +1,360 @@
+import {
+  ContactPayload,
+  CryptoPaymentPayload,
+  EmvMerchantAccount,
+  EmvPaymentPayload,
+  EventPayload,
+  OtpPayload,
+  ParsedPayload
+} from '../types';
+import { mecardValues, splitMecardFields } from './mecardFields';
+import { decodeWifiPayload } from './wifiPayload';
+
+// Recognises the structured formats phones and payment apps put in QR codes; anything else is plain text
+
+const decodeUriPart = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Query strings of mailto:, sms: and payment URIs; keys are matched case-insensitively
+const parseQuery = (query: string): Record<string, string> => {
+  const parameters: Record<string, string> = {};
+  query.split('&').filter(Boolean).forEach(pair => {
+    const separator = pair.indexOf('=');
+    const key = decodeUriPart(separator >= 0 ? pair.slice(0, separator) : pair).toLowerCase();
+    parameters[key] = decodeUriPart(separator >= 0 ? pair.slice(separator + 1) : '');
+  });
+  return parameters;
+};
+
+const splitUri = (uri: string): { path: string; query: Record<string, string> } => {
+  const queryStart = uri.indexOf('?');
+  return queryStart >= 0
+    ? { path: uri.slice(0, queryStart), query: parseQuery(uri.slice(queryStart + 1)) }
+    : { path: uri, query: {} };
+};
+
+const splitAddresses = (value: string | undefined): string[] =>
+  (value || '').split(',').map(address => decodeUriPart(address).trim()).filter(Boolean);
+
+const parseMailto = (data: string): ParsedPayload => {
+  const { path, query } = splitUri(data.slice('mailto:'.length));
+  return {
+    kind: 'email',
+    to: [...splitAddresses(path), ...splitAddresses(query.to)],
+    cc: splitAddresses(query.cc),
+    bcc: splitAddresses(query.bcc),
+    subject: query.subject,
+    body: query.body
+  };
+};
+
+const parseMatmsg = (data: string): ParsedPayload => {
+  const fields = splitMecardFields(data.slice('MATMSG:'.length));
+  return {
+    kind: 'email',
+    to: mecardValues(fields, 'TO'),
+    cc: [],
+    bcc: [],
+    subject: mecardValues(fields, 'SUB')[0],
+    body: mecardValues(fields, 'BODY')[0]
+  };
+};
+
+// MEBKM:TITLE:name;URL:address;; bookmarks; only web links are treated as links
+const parseBookmark = (data: string): ParsedPayload | null => {
+  const fields = splitMecardFields(data.slice('MEBKM:'.length));
+  const url = mecardValues(fields, 'URL')[0]?.trim();
+  if (!url || !/^https?:\/\//i.test(url)) return null;
+  return { kind: 'url', url, title: mecardValues(fields, 'TITLE')[0] };
+};
+
+// "SMSTO:number:message" and "SMS:number:message" from generators, or RFC 5724 "sms:number?body=message"
+const parseSms = (data: string): ParsedPayload => {
+  const scheme = data.slice(0, data.indexOf(':')).toLowerCase();
+  const rest = data.slice(scheme.length + 1);
+  if (scheme === 'sms' && !/^[^:?]*:/.test(rest)) {
+    const { path, query } = splitUri(rest);
+    return { kind: 'sms', numbers: splitAddresses(path), message: query.body };
+  }
+  const separator = rest.indexOf(':');
+  return {
+    kind: 'sms',
+    numbers: splitAddresses(separator >= 0 ? rest.slice(0, separator) : rest),
+    message: separator >= 0 ? rest.slice(separator + 1) || undefined : undefined
+  };
+};
+
+// geo:lat,lon[,alt][;crs=...;u=...][?q=...] (RFC 5870, plus the ?q= Android adds)
+const parseGeo = (data: string): ParsedPayload | null => {
+  const { path, query } = splitUri(data.slice('geo:'.length));
+  const [latitude, longitude, altitude] = path.split(';')[0].split(',').map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { kind: 'geo', latitude, longitude, altitude: Number.isFinite(altitude) ? altitude : undefined, query: query.q };
+};
+
+interface ContentLine {
+  name: string;
+  parameters: string;
+  value: string;
+}
+
+// vCard and iCalendar content lines: unfold continuation lines, drop "item1." groups, split off parameters
+const parseContentLines = (data: string): ContentLine[] =>
+  data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).flatMap(line => {
+    const match = /^(?:[\w-]+\.)?([\w-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    return match ? [{ name: match[1].toUpperCase(), parameters: match[2].toUpperCase(), value: match[3] }] : [];
+  });
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+
+// Structured values such as N and ADR separate components with unescaped semicolons
+const splitComponents = (value: string): string[] =>
+  value.split(/(?<!\\);/).map(unescapeText);
+
+const parseVcard = (data: string): ContactPayload => {
+  const lines = parseContentLines(data);
+  const values = (name: string) => lines.filter(line => line.name === name).map(line => unescapeText(line.value)).filter(Boolean);
+  const structuredName = lines.find(line => line.name === 'N');
+  const [family, given, additional, prefix, suffix] = structuredName ? splitComponents(structuredName.value) : [];
+
+  return {
+    kind: 'contact',
+    source: 'vcard',
+    name: values('FN')[0] || [prefix, given, additional, family, suffix].filter(Boolean).join(' ') || undefined,
+    organization: lines.filter(line => line.name === 'ORG').map(line => splitComponents(line.value).filter(Boolean).join(', '))[0],
+    title: values('TITLE')[0],
+    phones: values('TEL').map(phone => phone.replace(/^tel:/i, '')),
+    emails: values('EMAIL'),
+    urls: values('URL'),
+    addresses: lines.filter(line => line.name === 'ADR').map(line => splitComponents(line.value).filter(Boolean).join(', ')),
+    birthday: values('BDAY')[0],
+    note: values('NOTE')[0]
+  };
+};
+
+const parseMecard = (data: string): ContactPayload => {
+  const fields = splitMecardFields(data.slice('MECARD:'.length));
+  // N is "Last,First"
+  const [last, first] = (mecardValues(fields, 'N')[0] || '').split(',');
+  return {
+    kind: 'contact',
+    source: 'mecard',
+    name: [first, last].map(part => part?.trim()).filter(Boolean).join(' ') || mecardValues(fields, 'NICKNAME')[0],
+    organization: mecardValues(fields, 'ORG')[0],
+    title: undefined,
+    phones: [...mecardValues(fields, 'TEL'), ...mecardValues(fields, 'TEL-AV')],
+    emails: mecardValues(fields, 'EMAIL'),
+    urls: mecardValues(fields, 'URL'),
+    addresses: mecardValues(fields, 'ADR'),
+    birthday: mecardValues(fields, 'BDAY')[0],
+    note: mecardValues(fields, 'NOTE')[0]
+  };
+};
+
+// iCalendar DATE (all-day) or DATE-TIME, UTC when suffixed with Z and otherwise read as local time
+const parseICalDate = (value: string): { date: Date; allDay: boolean } | undefined => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0), Number(seconds || 0)] as const;
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  return Number.isNaN(date.getTime()) ? undefined : { date, allDay: hours === undefined };
+};
+
+const parseVevent = (data: string): EventPayload => {
+  // Only the first event of a calendar is shown
+  const start = data.toUpperCase().indexOf('BEGIN:VEVENT');
+  const lines = parseContentLines(data.slice(start));
+  const value = (name: string) => {
+    const line = lines.find(candidate => candidate.name === name);
+    return line ? unescapeText(line.value) : undefined;
+  };
+  const startDate = parseICalDate(value('DTSTART') || '');
+  return {
+    kind: 'event',
+    summary: value('SUMMARY'),
+    start: startDate?.date,
+    end: parseICalDate(value('DTEND') || '')?.date,
+    allDay: startDate?.allDay ?? false,
+    location: value('LOCATION'),
+    description: value('DESCRIPTION')
+  };
+};
+
+// BIP 21 "bitcoin:address?amount=&label=&message=" and EIP-681 "ethereum:[pay-]address[@chain][/function]?params"
+const parseCryptoPayment = (data: string): CryptoPaymentPayload | null => {
+  const scheme = data.slice(0, data.indexOf(':')).toLowerCase();
+  const { path, query } = splitUri(data.slice(scheme.length + 1).replace(/^\/\//, ''));
+
+  if (scheme === 'bitcoin') {
+    if (!path) return null;
+    return { kind: 'crypto', currency: 'bitcoin', address: path, amount: query.amount, label: query.label, message: query.message, parameters: query };
+  }
+
+  const match = /^(?:pay-)?([^@/]+)(?:@(\d+))?(?:\/(\w+))?$/.exec(path);
+  if (!match) return null;
+  return {
+    kind: 'crypto',
+    currency: 'ethereum',
+    address: match[1],
+    chainId: match[2],
+    functionName: match[3],
+    amount: query.value,
+    parameters: query
+  };
+};
+
+// otpauth://totp/Issuer:account?secret=...&issuer=...&algorithm=SHA1&digits=6&period=30
+const parseOtpauth = (data: string): OtpPayload | null => {
+  const match = /^otpauth:\/\/(totp|hotp)\/([^?]*)(?:\?(.*))?$/i.exec(data);
+  if (!match) return null;
+  const type = match[1].toLowerCase() as OtpPayload['type'];
+  const query = parseQuery(match[3] || '');
+  if (!query.secret) return null;
+
+  const label = decodeUriPart(match[2]);
+  const separator = label.indexOf(':');
+  const labelIssuer = separator >= 0 ? label.slice(0, separator).trim() : undefined;
+  const digits = Number(query.digits);
+  return {
+    kind: 'otp',
+    type,
+    issuer: query.issuer || labelIssuer,
+    account: (separator >= 0 ? label.slice(separator + 1) : label).trim(),
+    secret: query.secret,
+    algorithm: (query.algorithm || 'SHA1').toUpperCase(),
+    digits: Number.isInteger(digits) && digits > 0 ? digits : 6,
+    period: type === 'totp' ? Number(query.period) || 30 : undefined,
+    counter: type === 'hotp' ? Number(query.counter) || 0 : undefined
+  };
+};
+
+// ISO 4217 numeric codes of currencies with EMV QR schemes in use, for display
+export const EMV_CURRENCY_CODES: Record<string, string> = {
+  '036': 'AUD',
+  '116': 'KHR',
+  '156': 'CNY',
+  '344': 'HKD',
+  '356': 'INR',
+  '360': 'IDR',
+  '392': 'JPY',
+  '410': 'KRW',
+  '458': 'MYR',
+  '524': 'NPR',
+  '608': 'PHP',
+  '702': 'SGD',
+  '704': 'VND',
+  '764': 'THB',
+  '784': 'AED',
+  '826': 'GBP',
+  '840': 'USD',
+  '901': 'TWD',
+  '978': 'EUR',
+  '986': 'BRL'
+};
+
+// Sub-fields of the additional data template (tag 62)
+export const EMV_ADDITIONAL_DATA_LABELS: Record<string, string> = {
+  '01': 'Bill number',
+  '02': 'Mobile number',
+  '03': 'Store label',
+  '04': 'Loyalty number',
+  '05': 'Reference label',
+  '06': 'Customer label',
+  '07': 'Terminal label',
+  '08': 'Purpose of transaction',
+  '09': 'Additional customer data request'
+};
+
+// EMV QR tag-length-value fields: two-digit tag, two-digit length, value
+const parseTlv = (data: string): Array<[string, string]> | null => {
+  const fields: Array<[string, string]> = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const tag = data.slice(offset, offset + 2);
+    const length = Number(data.slice(offset + 2, offset + 4));
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(data.slice(offset + 2, offset + 4)) || offset + 4 + length > data.length) {
+      return null;
+    }
+    fields.push([tag, data.slice(offset + 4, offset + 4 + length)]);
+    offset += 4 + length;
+  }
+  return fields;
+};
+
+// CRC-16/CCITT-FALSE over everything up to and including the "6304" that introduces the checksum
+const emvCrc = (data: string): string => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// EMVCo merchant-presented mode, as used by PromptPay, PayNow, DuitNow, Pix, UPI and others
+const parseEmv = (data: string): EmvPaymentPayload | null => {
+  const fields = parseTlv(data);
+  if (!fields || fields[0]?.[0] !== '00' || fields[0][1] !== '01') return null;
+
+  const value = (tag: string) => fields.find(([candidate]) => candidate === tag)?.[1];
+  const merchantAccounts: EmvMerchantAccount[] = fields
+    .filter(([tag]) => Number(tag) >= 2 && Number(tag) <= 51)
+    .map(([tag, content]) => {
+      // Templates 26-51 nest their own fields; 02-25 hold a card network's merchant ID as-is
+      const nested = Number(tag) >= 26 ? parseTlv(content) : null;
+      return nested
+        ? { tag, identifier: nested.find(([subTag]) => subTag === '00')?.[1], fields: Object.fromEntries(nested) }
+        : { tag, fields: { '00': content } };
+    });
+  const crc = value('63');
+  const crcStart = data.lastIndexOf('6304');
+
+  return {
+    kind: 'emv',
+    initiation: value('01') === '11' ? 'static' : value('01') === '12' ? 'dynamic' : undefined,
+    merchantName: value('59'),
+    merchantCity: value('60'),
+    postalCode: value('61'),
+    countryCode: value('58'),
+    categoryCode: value('52'),
+    currency: value('53'),
+    amount: value('54'),
+    merchantAccounts,
+    additionalData: Object.fromEntries(parseTlv(value('62') || '') || []),
+    crcValid: crc !== undefined && crcStart >= 0 && emvCrc(data.slice(0, crcStart + 4)) === crc.toUpperCase()
+  };
+};
+
+export const parsePayload = (data: string): ParsedPayload => {
+  const text = data.trim();
+  const upper = text.toUpperCase();
+
+  if (/^https?:\/\//i.test(text)) return { kind: 'url', url: text };
+  if (upper.startsWith('MEBKM:')) return parseBookmark(text) ?? { kind: 'text', text: data };
+  if (upper.startsWith('MAILTO:')) return parseMailto(text);
+  if (upper.startsWith('MATMSG:')) return parseMatmsg(text);
+  if (upper.startsWith('TEL:')) return { kind: 'phone', number: text.slice(4) };
+  if (/^(SMSTO|SMS|MMSTO):/.test(upper)) return parseSms(text);
+  if (upper.startsWith('WIFI:')) return decodeWifiPayload(text);
+  if (upper.startsWith('MECARD:')) return parseMecard(text);
+  if (upper.startsWith('BEGIN:VCARD')) return parseVcard(text);
+  if (upper.startsWith('BEGIN:VEVENT') || (upper.startsWith('BEGIN:VCALENDAR') && upper.includes('BEGIN:VEVENT'))) {
+    return parseVevent(text);
+  }
+  if (upper.startsWith('GEO:')) return parseGeo(text) ?? { kind: 'text', text: data };
+  if (upper.startsWith('BITCOIN:') || upper.startsWith('ETHEREUM:')) return parseCryptoPayment(text) ?? { kind: 'text', text: data };
+  if (upper.startsWith('OTPAUTH://')) return parseOtpauth(text) ?? { kind: 'text', text: data };
+  if (text.startsWith('000201')) return parseEmv(text) ?? { kind: 'text', text: data };
+  return { kind: 'text', text: data };
+};
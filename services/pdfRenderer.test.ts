@@ -0,0 +1,188 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import QRCode from 'qrcode';
+import { ImageKind, OPS } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDecoderEngines } from './decoderEngines';
+import { loadDecoderWorker } from './testHelpers';
+import { extractPageImages, loadPdfDocument } from './pdfRenderer';
+
+// Node cannot pass ImageBitmaps between pdf.js threads, so masks arrive as raw 1-bit rows here instead of bitmaps
+vi.mock('pdfjs-dist', async importOriginal => {
+  const pdfjs = await importOriginal<typeof import('pdfjs-dist')>();
+  return {
+    ...pdfjs,
+    getDocument: (params: object) => pdfjs.getDocument({ ...params, isOffscreenCanvasSupported: false })
+  };
+});
+
+const PAGE_WIDTH = 600;
+const PAGE_HEIGHT = 800;
+const MODULE_PIXELS = 4;
+const QUIET_MODULES = 4;
+
+// A QR symbol as image rows, one bit or byte per pixel: 0 for dark modules, 1 (or 255) for light ones
+const qrRows = (text: string, bitsPerPixel: 1 | 8): { size: number; bytes: Uint8Array } => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const size = (modules.size + QUIET_MODULES * 2) * MODULE_PIXELS;
+  const isDark = (x: number, y: number) => {
+    const col = Math.floor(x / MODULE_PIXELS) - QUIET_MODULES;
+    const row = Math.floor(y / MODULE_PIXELS) - QUIET_MODULES;
+    return col >= 0 && row >= 0 && col < modules.size && row < modules.size && !!modules.get(row, col);
+  };
+
+  const bytes: number[] = [];
+  for (let y = 0; y < size; y++) {
+    if (bitsPerPixel === 8) {
+      for (let x = 0; x < size; x++) bytes.push(isDark(x, y) ? 0 : 255);
+      continue;
+    }
+    for (let x = 0; x < size; x += 8) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        if (x + bit >= size || !isDark(x + bit, y)) byte |= 128 >> bit;
+      }
+      bytes.push(byte);
+    }
+  }
+  return { size, bytes: new Uint8Array(bytes) };
+};
+
+// A one-page PDF with a single image XObject, /Im1, painted by the given content stream
+const buildPdf = (imageDictionary: string, imageBytes: Uint8Array, content: string): File => {
+  const imageHex = Array.from(imageBytes, byte => byte.toString(16).padStart(2, '0')).join('') + '>';
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im1 5 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Type /XObject /Subtype /Image ${imageDictionary} /Filter /ASCIIHexDecode /Length ${imageHex.length} >>\nstream\n${imageHex}\nendstream`
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new File([pdf], 'test.pdf', { type: 'application/pdf' });
+};
+
+const paintAt = (positions: Array<[number, number]>, size: number) =>
+  positions.map(([x, y]) => `q ${size} 0 0 ${size} ${x} ${y} cm /Im1 Do Q`).join('\n');
+
+let documentCount = 0;
+const extractImages = async (file: File) =>
+  extractPageImages(await loadPdfDocument(`test-${++documentCount}`, file), 1);
+
+const decode = (imageData: ImageData) => getDecoderEngines(['jsqr'])[0].detect(imageData)?.data;
+
+// A document whose page has the given operator list and image objects, for ops pdf.js only emits in optimised lists
+const fakePdf = (fnArray: number[], argsArray: unknown[][], objects: Record<string, unknown>) => {
+  const store = { get: (objId: string, callback: (value: unknown) => void) => callback(objects[objId]) };
+  return {
+    getPage: async () => ({
+      getViewport: () => ({ transform: [1, 0, 0, -1, 0, PAGE_HEIGHT] }),
+      getOperatorList: async () => ({ fnArray, argsArray }),
+      objs: store,
+      commonObjs: store,
+      cleanup: () => undefined
+    })
+  } as unknown as PDFDocumentProxy;
+};
+
+const topLeftCorners = (placements: Array<(point: { x: number; y: number }) => { x: number; y: number }>) =>
+  placements.map(toPage => toPage({ x: 0, y: 0 }));
+
+const expectedCorners = (positions: Array<[number, number]>, size: number) =>
+  positions.map(([x, y]) => ({ x, y: PAGE_HEIGHT - y - size }));
+
+beforeAll(async () => {
+  // Only for the OffscreenCanvas and ImageData globals it installs
+  await loadDecoderWorker();
+  // pdf.js 4 relies on Promise.withResolvers, which browsers have but Node only from version 22
+  const promise = Promise as unknown as { withResolvers?: () => unknown };
+  promise.withResolvers ??= () => {
+    let resolve!: (value: unknown) => void;
+    let reject!: (reason: unknown) => void;
+    const pending = new Promise((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise: pending, resolve, reject };
+  };
+});
+
+describe('extractPageImages', () => {
+  it('extracts a stencil mask QR code at native size, black on white, and places it on the page', async () => {
+    const { size, bytes } = qrRows('https://example.com/mask', 1);
+    const file = buildPdf(`/Width ${size} /Height ${size} /ImageMask true /BitsPerComponent 1`, bytes, paintAt([[50, 100]], 200));
+
+    const images = await extractImages(file);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].imageData.width).toBe(size);
+    expect(decode(images[0].imageData)).toBe('https://example.com/mask');
+    // The image's top-left corner lands at the top-left of the painted square, in top-down page units
+    expect(topLeftCorners(images[0].placements)).toEqual([{ x: 50, y: PAGE_HEIGHT - 300 }]);
+  });
+
+  it('decodes a mask painted many times once and keeps every placement', async () => {
+    const { size, bytes } = qrRows('SKU-0042', 1);
+    const positions = Array.from({ length: 12 }, (_, i): [number, number] => [(i % 4) * 140 + 20, Math.floor(i / 4) * 140 + 20]);
+    const file = buildPdf(`/Width ${size} /Height ${size} /ImageMask true /BitsPerComponent 1`, bytes, paintAt(positions, 120));
+
+    const images = await extractImages(file);
+
+    expect(images).toHaveLength(1);
+    expect(decode(images[0].imageData)).toBe('SKU-0042');
+    expect(topLeftCorners(images[0].placements)).toEqual(expectedCorners(positions, 120));
+  });
+
+  describe('folded paint ops', () => {
+    const positions: Array<[number, number]> = [[20, 20], [220, 20], [420, 20]];
+    const flatPositions = new Float32Array(positions.flat());
+
+    it('places every repeat of paintImageXObjectRepeat', async () => {
+      const { size, bytes } = qrRows('https://example.com/repeat', 1);
+      const pdf = fakePdf(
+        [OPS.paintImageXObjectRepeat],
+        [['img_p0_1', 150, 150, flatPositions]],
+        { img_p0_1: { width: size, height: size, kind: ImageKind.GRAYSCALE_1BPP, data: bytes } }
+      );
+
+      const [image] = await extractPageImages(pdf, 1);
+
+      expect(decode(image.imageData)).toBe('https://example.com/repeat');
+      expect(topLeftCorners(image.placements)).toEqual(expectedCorners(positions, 150));
+    });
+
+    it('places every repeat of paintImageMaskXObjectRepeat', async () => {
+      const { size, bytes } = qrRows('SKU-0042', 1);
+      const mask = { data: 'mask_p0_1', width: size, height: size, count: 1 };
+      const pdf = fakePdf(
+        [OPS.paintImageMaskXObjectRepeat],
+        [[mask, 120, 0, 0, 120, flatPositions]],
+        { mask_p0_1: { data: bytes, width: size, height: size } }
+      );
+
+      const [image] = await extractPageImages(pdf, 1);
+
+      expect(decode(image.imageData)).toBe('SKU-0042');
+      expect(topLeftCorners(image.placements)).toEqual(expectedCorners(positions, 120));
+    });
+
+    it('places every member of paintImageMaskXObjectGroup', async () => {
+      const { size, bytes } = qrRows('SKU-0042', 1);
+      const group = positions.map(([x, y]) => ({ data: 'mask_p0_1', width: size, height: size, transform: [120, 0, 0, 120, x, y] }));
+      const pdf = fakePdf([OPS.paintImageMaskXObjectGroup], [[group]], { mask_p0_1: { data: bytes, width: size, height: size } });
+
+      const images = await extractPageImages(pdf, 1);
+
+      expect(images).toHaveLength(1);
+      expect(topLeftCorners(images[0].placements)).toEqual(expectedCorners(positions, 120));
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentLoadingTask, PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import { QRPoint } from '../types';
+
+const MAX_SCANNING_DIMENSION = 4096;
+const OPTIMAL_SCALE = 3.0; // Increased for better QR detection
+const HIGH_DPI_SCALE = 5.0; // For high-quality scanning
+const MAX_CACHED_DOCUMENTS = 2;
+const MIN_EMBEDDED_IMAGE_SIZE = 21; // Smallest QR symbol, one pixel per module
+
+export interface RenderedPdfPage {
+  imageData: ImageData;
+  canvas: OffscreenCanvas;
+  renderScale: number; // Canvas pixels per PDF page unit
+  pageWidth: number; // Page size in PDF units (scale 1.0 viewport)
+  pageHeight: number;
+}
+
+export interface EmbeddedPdfImage {
+  objId: string;
+  imageData: ImageData;
+  scale: number; // imageData pixels per native image pixel, below 1 only for oversized images
+  placements: Array<(point: QRPoint) => QRPoint>; // Native image pixels to page units, one per paint
+}
+
+// pdf.js normally creates DOM canvases; workers only have OffscreenCanvas
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    if (width <= 0 || height <= 0) throw new Error('Invalid canvas size');
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (!canvasAndContext.canvas) return;
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// SVG filters need a document, so transfer maps and HCM filters are skipped in workers
+class NoopFilterFactory {
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
+
+let pdfjsReady: Promise<void> | null = null;
+
+// Run the pdf.js parser in this thread instead of spawning a nested worker per decoder worker
+const ensurePdfjs = (): Promise<void> => {
+  if (!pdfjsReady) {
+    pdfjsReady = import('pdfjs-dist/build/pdf.worker.min.mjs').then(workerModule => {
+      (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = workerModule;
+    });
+  }
+  return pdfjsReady;
+};
+
+interface CachedDocument {
+  promise: Promise<PDFDocumentProxy>;
+  destroy: () => void; // Aborts a load in progress or frees a loaded document
+}
+
+const documentCache = new Map<string, CachedDocument>();
+const activeRenderTasks = new Set<RenderTask>();
+
+export const loadPdfDocument = async (docKey: string, file: File): Promise<PDFDocumentProxy> => {
+  const cached = documentCache.get(docKey);
+  if (cached) {
+    // Refresh LRU position
+    documentCache.delete(docKey);
+    documentCache.set(docKey, cached);
+    return cached.promise;
+  }
+
+  let loadingTask: PDFDocumentLoadingTask | null = null;
+  let destroyed = false;
+  const loading = ensurePdfjs().then(() => file.arrayBuffer()).then(data => {
+    if (destroyed) throw new Error('PDF loading was cancelled');
+    loadingTask = pdfjsLib.getDocument({
+      data,
+      cMapUrl: 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.5.136/cmaps/',
+      cMapPacked: true,
+      CanvasFactory: OffscreenCanvasFactory,
+      FilterFactory: NoopFilterFactory,
+      isOffscreenCanvasSupported: true,
+      disableFontFace: true, // FontFace loading needs a document
+    });
+    return loadingTask.promise;
+  });
+
+  documentCache.set(docKey, {
+    promise: loading,
+    destroy: () => {
+      destroyed = true;
+      loadingTask?.destroy();
+    }
+  });
+  loading.catch(() => {
+    if (documentCache.get(docKey)?.promise === loading) documentCache.delete(docKey);
+  });
+
+  while (documentCache.size > MAX_CACHED_DOCUMENTS) {
+    const oldestKey = documentCache.keys().next().value as string;
+    releasePdfDocument(oldestKey);
+  }
+
+  return loading;
+};
+
+export const releasePdfDocument = (docKey: string): void => {
+  const cached = documentCache.get(docKey);
+  if (!cached) return;
+  documentCache.delete(docKey);
+  cached.destroy();
+};
+
+export const releaseAllPdfDocuments = (): void => {
+  Array.from(documentCache.keys()).forEach(releasePdfDocument);
+};
+
+// Stop in-progress renders and loads; their promises reject so callers can report the cancellation
+export const cancelPdfWork = (): void => {
+  activeRenderTasks.forEach(renderTask => renderTask.cancel());
+  activeRenderTasks.clear();
+  releaseAllPdfDocuments();
+};
+
+// maxDimension renders a small preview instead of a scanning-quality raster
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNum: number, maxDimension?: number): Promise<RenderedPdfPage> => {
+  const page = await pdf.getPage(pageNum);
+
+  try {
+    // Get page dimensions
+    const unscaledViewport = page.getViewport({ scale: 1.0 });
+    let scale = maxDimension
+      ? maxDimension / Math.max(unscaledViewport.width, unscaledViewport.height)
+      : OPTIMAL_SCALE;
+
+    // Adaptive scaling based on page size and content
+    const pageArea = unscaledViewport.width * unscaledViewport.height;
+    if (!maxDimension) {
+      if (pageArea > 1000000) { // Large pages
+        scale = HIGH_DPI_SCALE;
+      } else if (pageArea < 100000) { // Small pages
+        scale = HIGH_DPI_SCALE * 1.5; // Extra upscaling for small content
+      }
+    }
+
+    // Apply dimension constraints
+    let viewport = page.getViewport({ scale });
+    if (viewport.width > MAX_SCANNING_DIMENSION || viewport.height > MAX_SCANNING_DIMENSION) {
+      const constraintScale = Math.min(
+        MAX_SCANNING_DIMENSION / unscaledViewport.width,
+        MAX_SCANNING_DIMENSION / unscaledViewport.height
+      );
+      scale = Math.min(scale, constraintScale);
+      viewport = page.getViewport({ scale });
+    }
+
+    const canvas = new OffscreenCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error(`Failed to get context for page ${pageNum}`);
+
+    const renderTask = page.render({
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+      background: 'white' // Ensure white background for better QR detection
+    });
+    activeRenderTasks.add(renderTask);
+    try {
+      await renderTask.promise;
+    } finally {
+      activeRenderTasks.delete(renderTask);
+    }
+
+    return {
+      imageData: context.getImageData(0, 0, canvas.width, canvas.height),
+      canvas,
+      renderScale: canvas.width / unscaledViewport.width,
+      pageWidth: unscaledViewport.width,
+      pageHeight: unscaledViewport.height
+    };
+  } finally {
+    // Clean up page resources
+    page.cleanup();
+  }
+};
+
+interface PdfImageObject {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+}
+
+// paintImageMaskXObject argument: the mask itself (Type3 glyphs) or the id of one sent with the page objects
+interface PdfImageMaskArgs {
+  data: string | Uint8Array | null;
+  width: number;
+  height: number;
+  transform?: number[]; // Set on the members of a paintImageMaskXObjectGroup
+}
+
+const getPageObject = (page: PDFPageProxy, objId: string): Promise<PdfImageObject | null> => {
+  // Shared resources live in commonObjs and are prefixed with "g_"
+  const objects = objId.startsWith('g_') ? page.commonObjs : page.objs;
+  return new Promise(resolve => objects.get(objId, resolve));
+};
+
+// Stencil masks are painted in the fill colour, taken as black on white: either an alpha bitmap, or 1 bit per pixel
+// with 0 where paint goes, which reads the same as a GRAYSCALE_1BPP image
+const getMaskObject = async (page: PDFPageProxy, mask: PdfImageMaskArgs): Promise<PdfImageObject | null> => {
+  const image = typeof mask.data === 'string' ? await getPageObject(page, mask.data) : { ...mask, data: mask.data ?? undefined };
+  return image && { ...image, kind: pdfjsLib.ImageKind.GRAYSCALE_1BPP };
+};
+
+// Convert a decoded pdf.js image to RGBA, compositing any transparency onto white like the page would
+const toImageData = (image: PdfImageObject): ImageData | null => {
+  const { width, height } = image;
+  if (!width || !height) return null;
+
+  if (image.bitmap) {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image.bitmap, 0, 0);
+    return context.getImageData(0, 0, width, height);
+  }
+
+  const source = image.data;
+  if (!source) return null;
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  if (image.kind === pdfjsLib.ImageKind.GRAYSCALE_1BPP) {
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = source[y * rowBytes + (x >> 3)] & (128 >> (x & 7)) ? 255 : 0;
+        const i = (y * width + x) * 4;
+        output[i] = output[i + 1] = output[i + 2] = value;
+        output[i + 3] = 255;
+      }
+    }
+  } else if (image.kind === pdfjsLib.ImageKind.RGB_24BPP) {
+    for (let p = 0, s = 0; p < output.length; p += 4, s += 3) {
+      output[p] = source[s];
+      output[p + 1] = source[s + 1];
+      output[p + 2] = source[s + 2];
+      output[p + 3] = 255;
+    }
+  } else if (image.kind === pdfjsLib.ImageKind.RGBA_32BPP) {
+    for (let p = 0; p < output.length; p += 4) {
+      const alpha = source[p + 3] / 255;
+      output[p] = source[p] * alpha + 255 * (1 - alpha);
+      output[p + 1] = source[p + 1] * alpha + 255 * (1 - alpha);
+      output[p + 2] = source[p + 2] * alpha + 255 * (1 - alpha);
+      output[p + 3] = 255;
+    }
+  } else {
+    return null;
+  }
+
+  return new ImageData(output, width, height);
+};
+
+// Oversized images are scanned downscaled, like page rasters
+const limitImageSize = (imageData: ImageData): { imageData: ImageData; scale: number } => {
+  const { width, height } = imageData;
+  if (width <= MAX_SCANNING_DIMENSION && height <= MAX_SCANNING_DIMENSION) return { imageData, scale: 1 };
+
+  const scale = Math.min(MAX_SCANNING_DIMENSION / width, MAX_SCANNING_DIMENSION / height);
+  const source = new OffscreenCanvas(width, height);
+  source.getContext('2d')?.putImageData(imageData, 0, 0);
+  const target = new OffscreenCanvas(Math.floor(width * scale), Math.floor(height * scale));
+  const context = target.getContext('2d', { willReadFrequently: true });
+  if (!context) return { imageData, scale: 1 };
+  context.drawImage(source, 0, 0, target.width, target.height);
+  return { imageData: context.getImageData(0, 0, target.width, target.height), scale: target.width / width };
+};
+
+// Walk the operator list, tracking the current transform, to find every raster image painted on the page
+export const extractPageImages = async (pdf: PDFDocumentProxy, pageNum: number): Promise<EmbeddedPdfImage[]> => {
+  const page = await pdf.getPage(pageNum);
+
+  try {
+    const { OPS, Util } = pdfjsLib;
+    const viewport = page.getViewport({ scale: 1.0 });
+    const operatorList = await page.getOperatorList();
+    const images = new Map<string, EmbeddedPdfImage>();
+    const transformStack: number[][] = [];
+    let transform = [1, 0, 0, 1, 0, 0];
+    let inlineCount = 0;
+
+    const maskId = (mask: PdfImageMaskArgs) => typeof mask.data === 'string' ? mask.data : `inline_${inlineCount++}`;
+
+    // placement is the image's own transform, for ops that paint it several times
+    const addPlacement = async (objId: string, image: PdfImageObject | null, placement = transform) => {
+      if (!image || image.width < MIN_EMBEDDED_IMAGE_SIZE || image.height < MIN_EMBEDDED_IMAGE_SIZE) return;
+
+      let entry = images.get(objId);
+      if (!entry) {
+        const imageData = toImageData(image);
+        if (!imageData) return;
+        entry = { objId, ...limitImageSize(imageData), placements: [] };
+        images.set(objId, entry);
+      }
+
+      // Images are painted into the unit square with their first row at the top (y = 1)
+      const { width, height } = image;
+      const toPage = Util.transform(viewport.transform, placement);
+      entry.placements.push(point => {
+        const [x, y] = Util.applyTransform([point.x / width, 1 - point.y / height], toPage);
+        return { x, y };
+      });
+    };
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const args = operatorList.argsArray[i];
+      switch (operatorList.fnArray[i]) {
+        case OPS.save:
+          transformStack.push(transform);
+          break;
+        case OPS.restore:
+          transform = transformStack.pop() || transform;
+          break;
+        case OPS.transform:
+          transform = Util.transform(transform, args);
+          break;
+        case OPS.paintFormXObjectBegin:
+          transformStack.push(transform);
+          if (args[0]) transform = Util.transform(transform, args[0]);
+          break;
+        case OPS.paintFormXObjectEnd:
+          transform = transformStack.pop() || transform;
+          break;
+        case OPS.paintImageXObject:
+          await addPlacement(args[0], await getPageObject(page, args[0]));
+          break;
+        case OPS.paintInlineImageXObject:
+          await addPlacement(`inline_${inlineCount++}`, args[0]);
+          break;
+        case OPS.paintImageMaskXObject:
+          await addPlacement(maskId(args[0]), await getMaskObject(page, args[0]));
+          break;
+        // pdf.js folds runs of one image or mask into these when it optimises a display list; getOperatorList
+        // returns the list as painted today, but a folded list must still give one placement per paint
+        case OPS.paintImageXObjectRepeat: {
+          const [objId, scaleX, scaleY, positions] = args;
+          const image = await getPageObject(page, objId);
+          for (let p = 0; p < positions.length; p += 2) {
+            await addPlacement(objId, image, Util.transform(transform, [scaleX, 0, 0, scaleY, positions[p], positions[p + 1]]));
+          }
+          break;
+        }
+        case OPS.paintImageMaskXObjectRepeat: {
+          const [mask, a, b, c, d, positions] = args;
+          const objId = maskId(mask);
+          const image = await getMaskObject(page, mask);
+          for (let p = 0; p < positions.length; p += 2) {
+            await addPlacement(objId, image, Util.transform(transform, [a, b, c, d, positions[p], positions[p + 1]]));
+          }
+          break;
+        }
+        case OPS.paintImageMaskXObjectGroup:
+          for (const mask of args[0] as PdfImageMaskArgs[]) {
+            await addPlacement(maskId(mask), await getMaskObject(page, mask), Util.transform(transform, mask.transform!));
+          }
+          break;
+      }
+    }
+
+    return Array.from(images.values());
+  } finally {
+    page.cleanup();
+  }
+};
@@ -0,0 +1,253 @@
+import { QRPoint } from '../types';
+import { applyPreprocessing } from './preprocessing';
+
+export interface FinderPattern {
+  x: number;
+  y: number;
+  moduleSize: number;
+  count: number; // Rows that confirmed this pattern; higher is more reliable
+}
+
+// Three finder patterns plus the estimated fourth corner, all at finder centres
+export interface QRCandidate {
+  topLeft: FinderPattern;
+  topRight: FinderPattern;
+  bottomLeft: FinderPattern;
+  bottomRight: QRPoint;
+}
+
+// 3x3 projective transform, stored as ZXing does: a11 a21 a31 a12 a22 a32 a13 a23 a33
+type Homography = [number, number, number, number, number, number, number, number, number];
+
+export interface WarpedCandidate {
+  imageData: ImageData;
+  toSource: (point: QRPoint) => QRPoint; // Warped pixels back to the input image
+}
+
+const MAX_FINDER_CLUSTERS = 10;
+const MAX_CANDIDATES = 4;
+const MAX_MODULE_RATIO = 2; // Perspective shrinks far finder patterns, but not beyond this
+const MAX_CORNER_COSINE = 0.5; // Roughly 60° to 120° between the finder-to-finder edges
+const MIN_FINDER_DISTANCE_MODULES = 10; // Version 1 finder centres are 14 modules apart
+const WARP_SIZE = 800;
+const WARP_MARGIN = 200; // Room for the finder edges and a quiet zone around the centres
+
+const hasFinderRatio = (counts: number[]): boolean => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 7 || counts.some(count => count === 0)) return false;
+  const module = total / 7;
+  const tolerance = module / 2;
+  return Math.abs(counts[0] - module) < tolerance &&
+    Math.abs(counts[1] - module) < tolerance &&
+    Math.abs(counts[2] - 3 * module) < 3 * tolerance &&
+    Math.abs(counts[3] - module) < tolerance &&
+    Math.abs(counts[4] - module) < tolerance;
+};
+
+// Confirm a horizontal hit by reading the same 1:1:3:1:1 pattern vertically through its centre
+const crossCheckVertical = (
+  isDark: (x: number, y: number) => boolean,
+  x: number,
+  y: number,
+  height: number,
+  maxCount: number
+): { y: number; total: number } | null => {
+  const counts = [0, 0, 0, 0, 0];
+  let i = y;
+  while (i >= 0 && isDark(x, i)) { counts[2]++; i--; }
+  while (i >= 0 && !isDark(x, i) && counts[1] <= maxCount) { counts[1]++; i--; }
+  while (i >= 0 && isDark(x, i) && counts[0] <= maxCount) { counts[0]++; i--; }
+  if (counts[0] > maxCount || counts[1] > maxCount) return null;
+
+  i = y + 1;
+  while (i < height && isDark(x, i)) { counts[2]++; i++; }
+  while (i < height && !isDark(x, i) && counts[3] <= maxCount) { counts[3]++; i++; }
+  while (i < height && isDark(x, i) && counts[4] <= maxCount) { counts[4]++; i++; }
+  if (counts[3] > maxCount || counts[4] > maxCount || !hasFinderRatio(counts)) return null;
+
+  return { y: i - counts[4] - counts[3] - counts[2] / 2, total: counts.reduce((sum, count) => sum + count, 0) };
+};
+
+// Finder patterns keep their 1:1:3:1:1 ratio along any line through the centre, so this works at any rotation
+export const findFinderPatterns = (imageData: ImageData): FinderPattern[] => {
+  const { width, height } = imageData;
+  const binary = applyPreprocessing(imageData, ['otsu']).data;
+  const isDark = (x: number, y: number) => binary[(y * width + x) * 4] === 0;
+  const rowStep = Math.max(1, Math.floor(Math.min(width, height) / 600));
+  const clusters: FinderPattern[] = [];
+
+  const addCandidate = (x: number, y: number, moduleSize: number) => {
+    const cluster = clusters.find(existing =>
+      Math.abs(existing.x - x) < existing.moduleSize * 3 && Math.abs(existing.y - y) < existing.moduleSize * 3
+    );
+    if (cluster) {
+      // Running average keeps the centre stable as more rows confirm it
+      cluster.x = (cluster.x * cluster.count + x) / (cluster.count + 1);
+      cluster.y = (cluster.y * cluster.count + y) / (cluster.count + 1);
+      cluster.moduleSize = (cluster.moduleSize * cluster.count + moduleSize) / (cluster.count + 1);
+      cluster.count++;
+    } else {
+      clusters.push({ x, y, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < height; y += rowStep) {
+    const counts = [0, 0, 0, 0, 0];
+    let state = 0;
+
+    for (let x = 0; x < width; x++) {
+      if (isDark(x, y)) {
+        if ((state & 1) === 1) state++;
+        counts[state]++;
+      } else if ((state & 1) === 1) {
+        counts[state]++;
+      } else if (state === 4) {
+        if (hasFinderRatio(counts)) {
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const centreX = Math.floor(x - counts[4] - counts[3] - counts[2] / 2);
+          const vertical = crossCheckVertical(isDark, centreX, y, height, total);
+          if (vertical) {
+            addCandidate(centreX, vertical.y, (total + vertical.total) / 14);
+          }
+        }
+        // Slide the window on by one black/white pair
+        counts[0] = counts[2];
+        counts[1] = counts[3];
+        counts[2] = counts[4];
+        counts[3] = 1;
+        counts[4] = 0;
+        state = 3;
+      } else {
+        counts[++state]++;
+      }
+    }
+  }
+
+  return clusters
+    .filter(cluster => cluster.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FINDER_CLUSTERS);
+};
+
+// Pick triples that look like the three finders of one symbol, best shaped first
+export const findQRCandidates = (patterns: FinderPattern[]): QRCandidate[] => {
+  const scored: Array<{ candidate: QRCandidate; score: number }> = [];
+
+  for (let i = 0; i < patterns.length; i++) {
+    for (let j = i + 1; j < patterns.length; j++) {
+      for (let k = j + 1; k < patterns.length; k++) {
+        const triple = [patterns[i], patterns[j], patterns[k]];
+        const modules = triple.map(pattern => pattern.moduleSize);
+        if (Math.max(...modules) / Math.min(...modules) > MAX_MODULE_RATIO) continue;
+
+        // The corner finder is the one whose edges to the other two are closest to perpendicular
+        let best: { candidate: QRCandidate; score: number } | null = null;
+        for (let corner = 0; corner < 3; corner++) {
+          const topLeft = triple[corner];
+          const [b, c] = triple.filter((_, index) => index !== corner);
+          const ab = { x: b.x - topLeft.x, y: b.y - topLeft.y };
+          const ac = { x: c.x - topLeft.x, y: c.y - topLeft.y };
+          const lengthB = Math.hypot(ab.x, ab.y);
+          const lengthC = Math.hypot(ac.x, ac.y);
+          if (Math.min(lengthB, lengthC) < topLeft.moduleSize * MIN_FINDER_DISTANCE_MODULES) continue;
+
+          const cosine = Math.abs((ab.x * ac.x + ab.y * ac.y) / (lengthB * lengthC));
+          const lengthRatio = Math.max(lengthB, lengthC) / Math.min(lengthB, lengthC);
+          if (cosine > MAX_CORNER_COSINE || lengthRatio > MAX_MODULE_RATIO) continue;
+
+          // With y pointing down, top-right lies clockwise from bottom-left
+          const clockwise = ab.x * ac.y - ab.y * ac.x > 0;
+          const topRight = clockwise ? b : c;
+          const bottomLeft = clockwise ? c : b;
+          const score = cosine + (lengthRatio - 1) * 0.5;
+          if (!best || score < best.score) {
+            best = { candidate: { topLeft, topRight, bottomLeft, bottomRight: estimateBottomRight(topLeft, topRight, bottomLeft) }, score };
+          }
+        }
+        if (best) scored.push(best);
+      }
+    }
+  }
+
+  return scored.sort((a, b) => a.score - b.score).slice(0, MAX_CANDIDATES).map(entry => entry.candidate);
+};
+
+// Foreshortening shrinks the far edges, and the finder module sizes tell us by how much
+const estimateBottomRight = (topLeft: FinderPattern, topRight: FinderPattern, bottomLeft: FinderPattern): QRPoint => {
+  const clampRatio = (ratio: number) => Math.min(1.4, Math.max(0.7, ratio));
+  const rightRatio = clampRatio(topRight.moduleSize / topLeft.moduleSize);
+  const bottomRatio = clampRatio(bottomLeft.moduleSize / topLeft.moduleSize);
+  const fromRight = {
+    x: topRight.x + (bottomLeft.x - topLeft.x) * rightRatio,
+    y: topRight.y + (bottomLeft.y - topLeft.y) * rightRatio
+  };
+  const fromBottom = {
+    x: bottomLeft.x + (topRight.x - topLeft.x) * bottomRatio,
+    y: bottomLeft.y + (topRight.y - topLeft.y) * bottomRatio
+  };
+  return { x: (fromRight.x + fromBottom.x) / 2, y: (fromRight.y + fromBottom.y) / 2 };
+};
+
+// Maps the unit square onto a quadrilateral (p0 at (0,0), p1 at (1,0), p2 at (1,1), p3 at (0,1))
+const squareToQuad = (p0: QRPoint, p1: QRPoint, p2: QRPoint, p3: QRPoint): Homography => {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p1.x - p0.x, p3.x - p0.x, p0.x, p1.y - p0.y, p3.y - p0.y, p0.y, 0, 0, 1];
+  }
+
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    p1.x - p0.x + a13 * p1.x, p3.x - p0.x + a23 * p3.x, p0.x,
+    p1.y - p0.y + a13 * p1.y, p3.y - p0.y + a23 * p3.y, p0.y,
+    a13, a23, 1
+  ];
+};
+
+const applyHomography = (h: Homography, u: number, v: number): QRPoint => {
+  const w = h[6] * u + h[7] * v + h[8];
+  return { x: (h[0] * u + h[1] * v + h[2]) / w, y: (h[3] * u + h[4] * v + h[5]) / w };
+};
+
+// Resample the candidate into an upright square with the finder centres at fixed positions
+export const warpCandidate = (imageData: ImageData, candidate: QRCandidate): WarpedCandidate => {
+  const { data, width, height } = imageData;
+  const homography = squareToQuad(candidate.topLeft, candidate.topRight, candidate.bottomRight, candidate.bottomLeft);
+  const span = WARP_SIZE - 2 * WARP_MARGIN;
+  const toSource = (point: QRPoint) =>
+    applyHomography(homography, (point.x - WARP_MARGIN) / span, (point.y - WARP_MARGIN) / span);
+
+  const output = new Uint8ClampedArray(WARP_SIZE * WARP_SIZE * 4).fill(255);
+  for (let y = 0; y < WARP_SIZE; y++) {
+    for (let x = 0; x < WARP_SIZE; x++) {
+      const source = toSource({ x: x + 0.5, y: y + 0.5 });
+      const sx = Math.floor(source.x);
+      const sy = Math.floor(source.y);
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+      const from = (sy * width + sx) * 4;
+      const to = (y * WARP_SIZE + x) * 4;
+      output[to] = data[from];
+      output[to + 1] = data[from + 1];
+      output[to + 2] = data[from + 2];
+    }
+  }
+
+  return { imageData: new ImageData(output, WARP_SIZE, WARP_SIZE), toSource };
+};
+
+// Axis-aligned region around a candidate, padded for the finder edges and quiet zone
+export const candidateRegion = (candidate: QRCandidate, width: number, height: number) => {
+  const points = [candidate.topLeft, candidate.topRight, candidate.bottomRight, candidate.bottomLeft];
+  const padding = candidate.topLeft.moduleSize * 8;
+  const x = Math.max(0, Math.floor(Math.min(...points.map(point => point.x)) - padding));
+  const y = Math.max(0, Math.floor(Math.min(...points.map(point => point.y)) - padding));
+  const right = Math.min(width, Math.ceil(Math.max(...points.map(point => point.x)) + padding));
+  const bottom = Math.min(height, Math.ceil(Math.max(...points.map(point => point.y)) + padding));
+  return { x, y, width: right - x, height: bottom - y };
+};
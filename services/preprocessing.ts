@@ -0,0 +1,273 @@
+import { PreprocessingPipeline, PreprocessingStep } from '../types';
+
+// Filters work on single-channel luminance; ImageData is only built for the decoder at the end
+interface GrayImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const BRADLEY_ROTH_WINDOW_DIVISOR = 8;
+const BRADLEY_ROTH_SENSITIVITY = 0.15; // Pixels this much darker than their neighbourhood turn black
+const CLAHE_TILES = 8;
+const CLAHE_CLIP_LIMIT = 2.0; // Multiple of the average histogram bin height
+const GAUSSIAN_SIGMA = 1.0;
+const UNSHARP_SIGMA = 1.5;
+const UNSHARP_AMOUNT = 1.0;
+
+export const PREPROCESSING_STEP_LABELS: Record<PreprocessingStep, string> = {
+  'otsu': 'Otsu threshold',
+  'bradley-roth': 'Bradley-Roth adaptive threshold',
+  'clahe': 'CLAHE',
+  'gaussian-blur': 'Gaussian blur',
+  'unsharp-mask': 'Unsharp mask',
+  'erode': 'Erode',
+  'dilate': 'Dilate',
+  'open': 'Morphological open',
+  'close': 'Morphological close'
+};
+
+// Tried in order after a direct scan finds nothing; the first pipeline that finds a code wins
+export const DEFAULT_PREPROCESSING_PIPELINES: PreprocessingPipeline[] = [
+  { id: 'otsu', steps: ['otsu'], enabled: true },
+  { id: 'adaptive', steps: ['bradley-roth'], enabled: true },
+  { id: 'clahe-otsu', steps: ['clahe', 'otsu'], enabled: true },
+  { id: 'sharpen-adaptive', steps: ['unsharp-mask', 'bradley-roth'], enabled: true },
+  { id: 'denoise-adaptive', steps: ['gaussian-blur', 'bradley-roth', 'close'], enabled: true },
+  { id: 'clahe-adaptive-open', steps: ['clahe', 'bradley-roth', 'open'], enabled: false }
+];
+
+const toGray = (imageData: ImageData): GrayImage => {
+  const { data, width, height } = imageData;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { data: gray, width, height };
+};
+
+const toImageData = ({ data, width, height }: GrayImage): ImageData => {
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < data.length; p++, i += 4) {
+    output[i] = output[i + 1] = output[i + 2] = data[p];
+    output[i + 3] = 255;
+  }
+  return new ImageData(output, width, height);
+};
+
+// Global threshold that maximises the between-class variance of the histogram
+const otsu = (image: GrayImage): GrayImage => {
+  const histogram = new Array<number>(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+
+  const total = image.data.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+
+  const output = new Uint8ClampedArray(image.data.length);
+  for (let p = 0; p < output.length; p++) output[p] = image.data[p] <= threshold ? 0 : 255;
+  return { ...image, data: output };
+};
+
+// Compare each pixel with the mean of its neighbourhood, via an integral image
+const bradleyRoth = (image: GrayImage): GrayImage => {
+  const { data, width, height } = image;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(1, Math.floor(Math.max(width, height) / BRADLEY_ROTH_WINDOW_DIVISOR / 2));
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width - 1, x + half);
+      const count = (x2 - x1 + 1) * (y2 - y1 + 1);
+      const sum = integral[(y2 + 1) * (width + 1) + x2 + 1]
+        - integral[y1 * (width + 1) + x2 + 1]
+        - integral[(y2 + 1) * (width + 1) + x1]
+        + integral[y1 * (width + 1) + x1];
+      output[y * width + x] = data[y * width + x] * count <= sum * (1 - BRADLEY_ROTH_SENSITIVITY) ? 0 : 255;
+    }
+  }
+  return { ...image, data: output };
+};
+
+// Contrast-limited adaptive histogram equalisation with bilinear blending between tiles
+const clahe = (image: GrayImage): GrayImage => {
+  const { data, width, height } = image;
+  const tilesX = Math.min(CLAHE_TILES, width);
+  const tilesY = Math.min(CLAHE_TILES, height);
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+  const lookups: Uint8Array[] = [];
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      const histogram = new Array<number>(256).fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[data[y * width + x]]++;
+      }
+
+      // Clip the histogram and spread the excess evenly
+      const pixels = Math.max(1, (x1 - x0) * (y1 - y0));
+      const clipLimit = Math.max(1, CLAHE_CLIP_LIMIT * pixels / 256);
+      let excess = 0;
+      for (let level = 0; level < 256; level++) {
+        if (histogram[level] > clipLimit) {
+          excess += histogram[level] - clipLimit;
+          histogram[level] = clipLimit;
+        }
+      }
+      const bonus = excess / 256;
+
+      const lookup = new Uint8Array(256);
+      let cumulative = 0;
+      for (let level = 0; level < 256; level++) {
+        cumulative += histogram[level] + bonus;
+        lookup[level] = Math.min(255, Math.round(cumulative * 255 / pixels));
+      }
+      lookups.push(lookup);
+    }
+  }
+
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(Math.max(y / tileHeight - 0.5, 0), tilesY - 1);
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(ty0 + 1, tilesY - 1);
+    const fy = gy - ty0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(Math.max(x / tileWidth - 0.5, 0), tilesX - 1);
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tx0 + 1, tilesX - 1);
+      const fx = gx - tx0;
+      const value = data[y * width + x];
+      const top = lookups[ty0 * tilesX + tx0][value] * (1 - fx) + lookups[ty0 * tilesX + tx1][value] * fx;
+      const bottom = lookups[ty1 * tilesX + tx0][value] * (1 - fx) + lookups[ty1 * tilesX + tx1][value] * fx;
+      output[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { ...image, data: output };
+};
+
+// Separable Gaussian blur with edge clamping
+const gaussianBlur = (image: GrayImage, sigma: number = GAUSSIAN_SIGMA): GrayImage => {
+  const { data, width, height } = image;
+  const radius = Math.ceil(sigma * 2);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let kernelSum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernelSum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= kernelSum;
+
+  const horizontal = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += data[y * width + Math.min(width - 1, Math.max(0, x + k))] * kernel[k + radius];
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += horizontal[Math.min(height - 1, Math.max(0, y + k)) * width + x] * kernel[k + radius];
+      }
+      output[y * width + x] = sum;
+    }
+  }
+  return { ...image, data: output };
+};
+
+// Boost edges by adding back the difference from a blurred copy
+const unsharpMask = (image: GrayImage): GrayImage => {
+  const blurred = gaussianBlur(image, UNSHARP_SIGMA);
+  const output = new Uint8ClampedArray(image.data.length);
+  for (let p = 0; p < output.length; p++) {
+    output[p] = image.data[p] + UNSHARP_AMOUNT * (image.data[p] - blurred.data[p]);
+  }
+  return { ...image, data: output };
+};
+
+// 3x3 min (erode) or max (dilate) filter, applied as two 1D passes
+const morphology = (image: GrayImage, pick: (a: number, b: number) => number): GrayImage => {
+  const { data, width, height } = image;
+  const horizontal = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = y * width;
+      horizontal[row + x] = pick(pick(data[row + Math.max(0, x - 1)], data[row + x]), data[row + Math.min(width - 1, x + 1)]);
+    }
+  }
+
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const above = Math.max(0, y - 1) * width;
+    const below = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      output[y * width + x] = pick(pick(horizontal[above + x], horizontal[y * width + x]), horizontal[below + x]);
+    }
+  }
+  return { ...image, data: output };
+};
+
+const erode = (image: GrayImage) => morphology(image, Math.min);
+const dilate = (image: GrayImage) => morphology(image, Math.max);
+
+const STEPS: Record<PreprocessingStep, (image: GrayImage) => GrayImage> = {
+  'otsu': otsu,
+  'bradley-roth': bradleyRoth,
+  'clahe': clahe,
+  'gaussian-blur': image => gaussianBlur(image),
+  'unsharp-mask': unsharpMask,
+  'erode': erode,
+  'dilate': dilate,
+  // Opening removes light specks inside dark modules; closing removes dark specks on the light background
+  'open': image => dilate(erode(image)),
+  'close': image => erode(dilate(image))
+};
+
+export const applyPreprocessing = (imageData: ImageData, steps: PreprocessingStep[]): ImageData =>
+  toImageData(steps.reduce((image, step) => STEPS[step](image), toGray(imageData)));
+
+export const describePipeline = (steps: PreprocessingStep[]): string =>
+  steps.map(step => PREPROCESSING_STEP_LABELS[step]).join(' → ');
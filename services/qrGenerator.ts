@@ -1,18 +1,20 @@
 import QRCode from 'qrcode';
-import { QRGenerationData, WiFiCredentials, GeneratedQR } from '../types';
+import { QRGenerationData, WiFiCredentials, GeneratedQR, QRSettings } from '../types';
+import { encodeWifiPayload } from './wifiPayload';
 
-interface QRSettings {
-  foregroundColor?: string;
-  backgroundColor?: string;
-  size?: number;
-  margin?: number;
-  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
-}
+export const DEFAULT_QR_SETTINGS: QRSettings = {
+  foregroundColor: '#000000',
+  backgroundColor: '#FFFFFF',
+  size: 256,
+  margin: 2,
+  errorCorrectionLevel: 'M',
+  quality: 'high'
+};
 
 // Cache for QR generation to improve performance
 const qrCodeCache = new Map<string, string>();
 
-export const generateQRCode = async (data: QRGenerationData, settings?: QRSettings): Promise<string> => {
+export const generateQRCode = async (data: QRGenerationData, settings?: Partial<QRSettings>): Promise<string> => {
   let qrData = '';
   
   switch (data.type) {
@@ -34,7 +36,7 @@ export const generateQRCode = async (data: QRGenerationData, settings?: QRSettin
     case 'wifi':
       try {
         const wifi: WiFiCredentials = JSON.parse(data.content);
-        qrData = `WIFI:T:${wifi.security};S:${wifi.ssid};P:${wifi.password};H:${wifi.hidden ? 'true' : 'false'};;`;
+        qrData = encodeWifiPayload(wifi);
       } catch (e) {
         throw new Error('Invalid WiFi credentials format');
       }
@@ -53,13 +55,13 @@ export const generateQRCode = async (data: QRGenerationData, settings?: QRSettin
 
   try {
     const qrDataUrl = await QRCode.toDataURL(qrData, {
-      width: settings?.size || 256,
-      margin: settings?.margin || 2,
+      width: settings?.size ?? DEFAULT_QR_SETTINGS.size,
+      margin: settings?.margin ?? DEFAULT_QR_SETTINGS.margin,
       color: {
-        dark: settings?.foregroundColor || '#000000',
-        light: settings?.backgroundColor || '#FFFFFF'
+        dark: settings?.foregroundColor || DEFAULT_QR_SETTINGS.foregroundColor,
+        light: settings?.backgroundColor || DEFAULT_QR_SETTINGS.backgroundColor
       },
-      errorCorrectionLevel: settings?.errorCorrectionLevel || 'M'
+      errorCorrectionLevel: settings?.errorCorrectionLevel || DEFAULT_QR_SETTINGS.errorCorrectionLevel
     });
     
     // Cache the result
@@ -78,12 +80,13 @@ export const generateQRCode = async (data: QRGenerationData, settings?: QRSettin
 };
 
 // Enhanced QR generation with settings - unified function
-export const generateQRCodeWithSettings = async (data: QRGenerationData, settings: QRSettings): Promise<string> => {
+export const generateQRCodeWithSettings = async (data: QRGenerationData, settings: Partial<QRSettings>): Promise<string> => {
   return generateQRCode(data, settings);
 };
 
-export const createGeneratedQR = async (data: QRGenerationData, settings?: QRSettings): Promise<GeneratedQR> => {
-  const qrDataUrl = await generateQRCode(data, settings);
+export const createGeneratedQR = async (data: QRGenerationData, settings?: Partial<QRSettings>): Promise<GeneratedQR> => {
+  const resolvedSettings: QRSettings = { ...DEFAULT_QR_SETTINGS, ...settings };
+  const qrDataUrl = await generateQRCode(data, resolvedSettings);
   
   return {
     id: crypto.randomUUID(),
@@ -91,10 +94,19 @@ export const createGeneratedQR = async (data: QRGenerationData, settings?: QRSet
     data: data.content,
     displayName: data.displayName || getDefaultDisplayName(data),
     qrDataUrl,
+    settings: resolvedSettings,
     createdAt: new Date()
   };
 };
 
+// Re-render a saved QR from its stored settings so downloads and copies match the preview
+export const renderGeneratedQR = async (generatedQR: GeneratedQR): Promise<string> => {
+  return generateQRCode(
+    { type: generatedQR.type, content: generatedQR.data, displayName: generatedQR.displayName },
+    generatedQR.settings
+  );
+};
+
 const getDefaultDisplayName = (data: QRGenerationData): string => {
   switch (data.type) {
     case 'text':
@@ -122,21 +134,36 @@ const getDefaultDisplayName = (data: QRGenerationData): string => {
   }
 };
 
-export const downloadQRCode = (generatedQR: GeneratedQR): void => {
+export const downloadQRCode = async (generatedQR: GeneratedQR): Promise<void> => {
+  const qrDataUrl = await renderGeneratedQR(generatedQR);
   const link = document.createElement('a');
-  link.href = generatedQR.qrDataUrl;
+  link.href = qrDataUrl;
   link.download = `qr-${generatedQR.type}-${generatedQR.id}.png`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
 };
 
+export const copyQRCodeImage = async (generatedQR: GeneratedQR): Promise<void> => {
+  const qrDataUrl = await renderGeneratedQR(generatedQR);
+  const response = await fetch(qrDataUrl);
+  const blob = await response.blob();
+  await navigator.clipboard.write([
+    new ClipboardItem({ 'image/png': blob })
+  ]);
+};
+
 export const exportGeneratedQRsToCSV = (qrs: GeneratedQR[]): void => {
-  const headers = ['Type', 'Display Name', 'Data', 'Created At'];
+  const headers = ['Type', 'Display Name', 'Data', 'Foreground', 'Background', 'Size', 'Margin', 'Error Correction', 'Created At'];
   const rows = qrs.map(qr => [
     qr.type,
     `"${qr.displayName.replace(/"/g, '""')}"`,
     `"${qr.data.replace(/"/g, '""')}"`,
+    qr.settings.foregroundColor,
+    qr.settings.backgroundColor,
+    qr.settings.size,
+    qr.settings.margin,
+    qr.settings.errorCorrectionLevel,
     qr.createdAt.toISOString()
   ]);
 
@@ -0,0 +1,208 @@
+import { Chunks } from 'jsqr/dist/decoder/decodeData';
+import { QRCode } from 'jsqr';
+import { QRMetadata, QRPoint, QRSegment, QRSegmentMode } from '../types';
+
+// ECI assignment numbers to WHATWG encoding labels
+const ECI_CHARSETS: Record<number, string> = {
+  0: 'ibm437',
+  1: 'iso-8859-1',
+  2: 'ibm437',
+  3: 'iso-8859-1',
+  20: 'shift_jis',
+  21: 'windows-1250',
+  22: 'windows-1251',
+  23: 'windows-1252',
+  24: 'windows-1256',
+  25: 'utf-16be',
+  26: 'utf-8',
+  27: 'us-ascii',
+  28: 'big5',
+  29: 'gb18030',
+  30: 'euc-kr'
+};
+
+const ECC_LEVELS: Record<number, QRMetadata['errorCorrectionLevel']> = {
+  0b01: 'L',
+  0b00: 'M',
+  0b11: 'Q',
+  0b10: 'H'
+};
+
+const FORMAT_INFO_MASK = 0x5412;
+const FORMAT_INFO_GENERATOR = 0x537;
+
+// All 32 valid masked format words, indexed by their 5 data bits
+const FORMAT_INFO_CODEWORDS = Array.from({ length: 32 }, (_, data) => {
+  let remainder = data << 10;
+  for (let bit = 14; bit >= 10; bit--) {
+    if (remainder & (1 << bit)) {
+      remainder ^= FORMAT_INFO_GENERATOR << (bit - 10);
+    }
+  }
+  return ((data << 10) | remainder) ^ FORMAT_INFO_MASK;
+});
+
+const eciToCharset = (assignment: number): string | undefined => {
+  if (ECI_CHARSETS[assignment]) return ECI_CHARSETS[assignment];
+  // ECI 4-18 map onto ISO-8859-2..16 (there is no ISO-8859-12)
+  if (assignment >= 4 && assignment <= 18 && assignment !== 14) return `iso-8859-${assignment - 2}`;
+  return undefined;
+};
+
+const tryDecode = (bytes: Uint8Array, charset: string): string | null => {
+  try {
+    return new TextDecoder(charset, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const countBits = (value: number): number => {
+  let count = 0;
+  while (value) {
+    count += value & 1;
+    value >>>= 1;
+  }
+  return count;
+};
+
+// Same square-to-quad projection jsQR uses, so module (x, y) lands on the same pixel
+const createModuleMapper = (corners: QRCode['location'], dimension: number) => {
+  const p1 = corners.topLeftCorner;
+  const p2 = corners.topRightCorner;
+  const p3 = corners.bottomRightCorner;
+  const p4 = corners.bottomLeftCorner;
+
+  const dx3 = p1.x - p2.x + p3.x - p4.x;
+  const dy3 = p1.y - p2.y + p3.y - p4.y;
+  let a11: number, a12: number, a13: number, a21: number, a22: number, a23: number;
+
+  if (dx3 === 0 && dy3 === 0) {
+    a11 = p2.x - p1.x; a12 = p2.y - p1.y; a13 = 0;
+    a21 = p3.x - p2.x; a22 = p3.y - p2.y; a23 = 0;
+  } else {
+    const dx1 = p2.x - p3.x;
+    const dx2 = p4.x - p3.x;
+    const dy1 = p2.y - p3.y;
+    const dy2 = p4.y - p3.y;
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+    a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+    a11 = p2.x - p1.x + a13 * p2.x;
+    a12 = p2.y - p1.y + a13 * p2.y;
+    a21 = p4.x - p1.x + a23 * p4.x;
+    a22 = p4.y - p1.y + a23 * p4.y;
+  }
+
+  return (moduleX: number, moduleY: number): QRPoint => {
+    const u = (moduleX + 0.5) / dimension;
+    const v = (moduleY + 0.5) / dimension;
+    const denominator = a13 * u + a23 * v + 1;
+    return {
+      x: (a11 * u + a21 * v + p1.x) / denominator,
+      y: (a12 * u + a22 * v + p1.y) / denominator
+    };
+  };
+};
+
+// Read the 15-bit format information (ECC level and mask) that jsQR does not expose
+const readFormatInformation = (
+  imageData: ImageData,
+  location: QRCode['location'],
+  version: number
+): { errorCorrectionLevel: QRMetadata['errorCorrectionLevel']; maskPattern: number } | null => {
+  const dimension = 17 + 4 * version;
+  const toPixel = createModuleMapper(location, dimension);
+  const { data, width, height } = imageData;
+
+  const luminanceAt = (moduleX: number, moduleY: number): number => {
+    const point = toPixel(moduleX, moduleY);
+    const x = Math.min(width - 1, Math.max(0, Math.floor(point.x)));
+    const y = Math.min(height - 1, Math.max(0, Math.floor(point.y)));
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  // Finder centre is always dark and the separator corner always light
+  const threshold = (luminanceAt(3, 3) + luminanceAt(7, 7)) / 2;
+  const readBits = (modules: Array<[number, number]>): number =>
+    modules.reduce((bits, [x, y]) => (bits << 1) | (luminanceAt(x, y) < threshold ? 1 : 0), 0);
+
+  const firstCopy: Array<[number, number]> = [];
+  for (let x = 0; x <= 5; x++) firstCopy.push([x, 8]);
+  firstCopy.push([7, 8], [8, 8], [8, 7]);
+  for (let y = 5; y >= 0; y--) firstCopy.push([8, y]);
+
+  const secondCopy: Array<[number, number]> = [];
+  for (let y = dimension - 1; y >= dimension - 7; y--) secondCopy.push([8, y]);
+  for (let x = dimension - 8; x < dimension; x++) secondCopy.push([x, 8]);
+
+  const candidates = [readBits(firstCopy), readBits(secondCopy)];
+  let bestData = -1;
+  let bestDistance = Infinity;
+
+  FORMAT_INFO_CODEWORDS.forEach((codeword, formatData) => {
+    candidates.forEach(bits => {
+      const distance = countBits(bits ^ codeword);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestData = formatData;
+      }
+    });
+  });
+
+  // BCH(15,5) corrects up to 3 bit errors
+  if (bestDistance > 3) return null;
+
+  return {
+    errorCorrectionLevel: ECC_LEVELS[(bestData >> 3) & 0b11],
+    maskPattern: bestData & 0b111
+  };
+};
+
+const toSegments = (chunks: Chunks): QRSegment[] =>
+  chunks.map(chunk => {
+    const mode = chunk.type as QRSegmentMode;
+    if ('assignmentNumber' in chunk) {
+      return { mode, length: 0, eciAssignment: chunk.assignmentNumber };
+    }
+    if ('bytes' in chunk) {
+      return { mode, length: chunk.bytes.length };
+    }
+    return { mode, length: chunk.text.length };
+  });
+
+// Pick a charset for the payload: declared ECI first, then UTF-8, then Shift-JIS
+export const resolveText = (rawBytes: number[], eci?: number): { text: string | null; charset: string } => {
+  const bytes = new Uint8Array(rawBytes);
+  const declared = eci !== undefined ? eciToCharset(eci) : undefined;
+
+  for (const charset of [declared, 'utf-8', 'shift_jis']) {
+    if (!charset) continue;
+    const text = tryDecode(bytes, charset);
+    if (text !== null) return { text, charset };
+  }
+  return { text: null, charset: 'binary' };
+};
+
+export const buildQRMetadata = (code: QRCode, imageData: ImageData): { data: string; metadata: QRMetadata } => {
+  const segments = toSegments(code.chunks);
+  const eci = segments.find(segment => segment.mode === 'eci')?.eciAssignment;
+  const { text, charset } = resolveText(code.binaryData, eci);
+  const formatInfo = readFormatInformation(imageData, code.location, code.version);
+
+  return {
+    // jsQR always assumes UTF-8 for byte segments, so prefer our charset-aware decode
+    data: text ?? code.data,
+    metadata: {
+      rawBytes: code.binaryData,
+      version: code.version,
+      errorCorrectionLevel: formatInfo?.errorCorrectionLevel,
+      maskPattern: formatInfo?.maskPattern,
+      segments,
+      eci,
+      charset,
+      isBinary: text === null
+    }
+  };
+};
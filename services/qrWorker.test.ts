@@ -0,0 +1,61 @@
+import { beforeAll, beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+import { DecodedFileResult, DetectionProfile } from '../types';
+import { DETECTION_PROFILES } from './detectionProfiles';
+import { loadDecoderWorker, MODULE_SIZE, PlacedCode, QUIET_ZONE, renderCodes, sendToWorker } from './testHelpers';
+
+// Lay codes out on a grid with room for a version 2 symbol and its quiet zone in every cell
+const CELL_SIZE = (25 + QUIET_ZONE * 2) * MODULE_SIZE;
+const gridOf = (texts: string[], columns: number): PlacedCode[] =>
+  texts.map((text, i) => ({ text, x: (i % columns) * CELL_SIZE, y: Math.floor(i / columns) * CELL_SIZE }));
+
+let postMessage: Mock;
+let taskId = 0;
+
+const scan = async (imageData: ImageData, profile: DetectionProfile): Promise<DecodedFileResult> => {
+  const id = ++taskId;
+  sendToWorker({ type: 'configure', options: { engines: ['jsqr'], profile } });
+  sendToWorker({ type: 'imageData', taskId: id, imageData, pageNum: 1, renderScale: 1 });
+  await vi.waitFor(() => expect(postMessage.mock.calls.some(([message]) => message.taskId === id)).toBe(true), { timeout: 30000 });
+  return postMessage.mock.calls.find(([message]) => message.taskId === id)![0].payload;
+};
+
+beforeAll(async () => {
+  postMessage = await loadDecoderWorker();
+});
+
+beforeEach(() => postMessage.mockClear());
+
+describe('qrWorker detection profiles', () => {
+  it('returns every code the direct scan finds under the Balanced profile, not just the first', async () => {
+    // Codes of different sizes, which the direct scan reads one after another
+    const codes = [
+      { text: 'https://example.com/a', x: 0, y: 0, moduleSize: 3 },
+      { text: 'https://example.com/b', x: 150, y: 0, moduleSize: 5 },
+      { text: 'https://example.com/c', x: 400, y: 0, moduleSize: 7 }
+    ];
+    const result = await scan(renderCodes(750, 350, codes), DETECTION_PROFILES.balanced);
+
+    expect(result.qrs.map(qr => qr.data).sort()).toEqual(codes.map(code => code.text));
+    expect(result.qrs.every(qr => qr.strategy === 'direct')).toBe(true);
+  });
+
+  it('tiles a dense sheet of identical stickers under Balanced and keeps each placement', async () => {
+    const texts = Array.from({ length: 16 }, () => 'SKU-0042');
+    const result = await scan(renderCodes(CELL_SIZE * 4, CELL_SIZE * 4, gridOf(texts, 4)), DETECTION_PROFILES.balanced);
+
+    expect(result.qrs).toHaveLength(16);
+    expect(result.strategyTimings?.map(timing => timing.strategy)).toContain('tiles');
+    const centres = new Set(result.qrs.map(qr => {
+      const box = qr.location!.boundingBox;
+      return `${Math.floor((box.x + box.width / 2) / CELL_SIZE)},${Math.floor((box.y + box.height / 2) / CELL_SIZE)}`;
+    }));
+    expect(centres.size).toBe(16);
+  });
+
+  it('still skips later strategies once one has found a code', async () => {
+    const result = await scan(renderCodes(CELL_SIZE, CELL_SIZE, gridOf(['only'], 1)), DETECTION_PROFILES.balanced);
+
+    expect(result.qrs.map(qr => qr.data)).toEqual(['only']);
+    expect(result.strategyTimings?.map(timing => timing.strategy)).toEqual(['direct']);
+  });
+});
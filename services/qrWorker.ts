@@ -1,184 +1,550 @@
-import { DecodedQR, DecodedFileResult } from '../types';
-import jsQR from 'jsqr';
+import { DecodedQR, DecodedFileResult, DecodeOptions, DecoderEngineId, DetectionStrategy, QRLocation, QRMetadata, QRPoint, StrategyTiming } from '../types';
+import { Corners, DecoderEngine, getDecoderEngines } from './decoderEngines';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { cancelPdfWork, extractPageImages, loadPdfDocument, releaseAllPdfDocuments, renderPdfPage } from './pdfRenderer';
+import { renderThumbnailBlob, ThumbnailBlob, THUMBNAIL_MAX_DIMENSION } from './thumbnails';
+import { applyPreprocessing, DEFAULT_PREPROCESSING_PIPELINES, describePipeline } from './preprocessing';
+import { candidateRegion, findFinderPatterns, findQRCandidates, warpCandidate } from './perspective';
+import { createColorVariants, invertImageData, isMostlyDark } from './colorVariants';
+import { DEFAULT_DETECTION_PROFILE } from './detectionProfiles';
+import { summarizeStrategies } from './strategyStats';
+import type { InputFormat } from './imageFormats';
+import { decodeAnimationFrames, decodeHeic, decodeTiffPage, loadTiffDocument, releaseAllTiffDocuments } from './imageDecoders';
 
 const MAX_SCANNING_DIMENSION = 4096;
 const ADAPTIVE_SCALING_THRESHOLD = 2048;
+const MAX_CODES_PER_SCAN = 10;
+const TILE_FRACTIONS = [1 / 2, 1 / 3, 1 / 4]; // Tile edge as a share of the longer image side, largest first
+const TILE_OVERLAP = 0.25; // Codes up to a quarter of a tile always fit wholly inside one tile
+const MIN_TILE_SIZE = 200;
+const DENSE_PAGE_FINDER_PATTERNS = 6; // Finder patterns of two symbols the direct scan did not read
+const ROTATION_ANGLES = [15, -15, 30, -30, 90, 180, 270];
 const IS_DEVELOPMENT = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
 
-// Simplified but effective binarization
-const binarizeImageData = (imageData: ImageData, threshold: number): ImageData => {
-  const { data, width, height } = imageData;
-  const output = new Uint8ClampedArray(data);
-  
-  for (let i = 0; i < data.length; i += 4) {
-    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-    const value = luminance < threshold ? 0 : 255;
-    output[i] = output[i + 1] = output[i + 2] = value;
-    output[i + 3] = data[i + 3];
+interface ScannedCode {
+  data: string;
+  format: string;
+  engine: DecoderEngineId;
+  location: Corners;
+  metadata?: QRMetadata;
+  strategy?: string; // Set where the parameter is only known inside a strategy, e.g. the tile size
+}
+
+// Map engine corners from scan-canvas pixels back to source coordinates
+const toSourceLocation = (location: Corners, scale: number): QRLocation => {
+  const toSource = (point: QRPoint): QRPoint => ({ x: point.x / scale, y: point.y / scale });
+  const topLeft = toSource(location.topLeftCorner);
+  const topRight = toSource(location.topRightCorner);
+  const bottomRight = toSource(location.bottomRightCorner);
+  const bottomLeft = toSource(location.bottomLeftCorner);
+
+  const xs = [topLeft.x, topRight.x, bottomRight.x, bottomLeft.x];
+  const ys = [topLeft.y, topRight.y, bottomRight.y, bottomLeft.y];
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    topLeft,
+    topRight,
+    bottomRight,
+    bottomLeft,
+    boundingBox: {
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY
+    }
+  };
+};
+
+// Re-project a location through an arbitrary mapping, e.g. embedded image pixels to page units
+const mapLocation = (location: QRLocation, mapPoint: (point: QRPoint) => QRPoint): QRLocation =>
+  toSourceLocation({
+    topLeftCorner: mapPoint(location.topLeft),
+    topRightCorner: mapPoint(location.topRight),
+    bottomRightCorner: mapPoint(location.bottomRight),
+    bottomLeftCorner: mapPoint(location.bottomLeft)
+  }, 1);
+
+// Same payload in an overlapping place is the same symbol; elsewhere it is another copy
+const isSameCode = (a: DecodedQR, format: string, data: string, location: QRLocation): boolean => {
+  if (a.format !== format || a.data !== data) return false;
+  if (!a.location) return true;
+
+  const centreInside = (box: QRLocation['boundingBox'], other: QRLocation['boundingBox']) => {
+    const cx = other.x + other.width / 2;
+    const cy = other.y + other.height / 2;
+    return cx >= box.x && cx <= box.x + box.width && cy >= box.y && cy <= box.y + box.height;
+  };
+  return centreInside(a.location.boundingBox, location.boundingBox) || centreInside(location.boundingBox, a.location.boundingBox);
+};
+
+const addUniqueCode = (codes: DecodedQR[], code: DecodedQR): void => {
+  const duplicate = code.location
+    ? codes.some(existing => isSameCode(existing, code.format, code.data, code.location!))
+    : codes.some(existing => existing.format === code.format && existing.data === code.data);
+  if (!duplicate) codes.push(code);
+};
+
+const offsetCorners = (corners: Corners, dx: number, dy: number): Corners => ({
+  topLeftCorner: { x: corners.topLeftCorner.x + dx, y: corners.topLeftCorner.y + dy },
+  topRightCorner: { x: corners.topRightCorner.x + dx, y: corners.topRightCorner.y + dy },
+  bottomRightCorner: { x: corners.bottomRightCorner.x + dx, y: corners.bottomRightCorner.y + dy },
+  bottomLeftCorner: { x: corners.bottomLeftCorner.x + dx, y: corners.bottomLeftCorner.y + dy }
+});
+
+const mapCorners = (corners: Corners, mapPoint: (point: QRPoint) => QRPoint): Corners => ({
+  topLeftCorner: mapPoint(corners.topLeftCorner),
+  topRightCorner: mapPoint(corners.topRightCorner),
+  bottomRightCorner: mapPoint(corners.bottomRightCorner),
+  bottomLeftCorner: mapPoint(corners.bottomLeftCorner)
+});
+
+// Effective scan and clear loop, run once per engine so later engines see what earlier ones missed.
+// withinBudget is asked before every detection after the first
+const scanAndClearLoop = (
+  context: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  engines: DecoderEngine[],
+  withinBudget: () => boolean = () => true
+): ScannedCode[] => {
+  const foundCodes: ScannedCode[] = [];
+  const maxAttempts = MAX_CODES_PER_SCAN;
+  let firstAttempt = true;
+
+  for (const engine of engines) {
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      if (!firstAttempt && !withinBudget()) return foundCodes;
+      firstAttempt = false;
+      const imageData = context.getImageData(0, 0, width, height);
+      const code = engine.detect(imageData);
+
+      if (code) {
+        foundCodes.push({
+          data: code.data,
+          format: code.format,
+          engine: engine.id,
+          location: code.corners,
+          metadata: code.metadata
+        });
+        
+        // Clear the detected code area to find additional codes
+        const loc = code.corners;
+        context.beginPath();
+        context.moveTo(loc.topLeftCorner.x, loc.topLeftCorner.y);
+        context.lineTo(loc.topRightCorner.x, loc.topRightCorner.y);
+        context.lineTo(loc.bottomRightCorner.x, loc.bottomRightCorner.y);
+        context.lineTo(loc.bottomLeftCorner.x, loc.bottomLeftCorner.y);
+        context.closePath();
+        context.fillStyle = 'white';
+        context.fill();
+      } else {
+        break;
+      }
+      attempts++;
+    }
   }
-  
-  return new ImageData(output, width, height);
+
+  return foundCodes;
 };
 
-// Effective scan and clear loop
-const scanAndClearLoop = (context: OffscreenCanvasRenderingContext2D, width: number, height: number): string[] => {
-  const foundCodes: string[] = [];
-  let attempts = 0;
-  const maxAttempts = 10;
+// Scan overlapping tiles at several sizes; small codes that get lost among many on a full page stand out in a tile
+const scanTiles = (source: ImageData, engines: DecoderEngine[], withinBudget: () => boolean): ScannedCode[] => {
+  const { width, height } = source;
+  const longerSide = Math.max(width, height);
+  const foundCodes: ScannedCode[] = [];
 
-  while (attempts < maxAttempts) {
-    const imageData = context.getImageData(0, 0, width, height);
-    const code = jsQR(imageData.data, width, height, {
-      inversionAttempts: 'dontInvert'
-    });
+  for (const fraction of TILE_FRACTIONS) {
+    const tileSize = Math.max(MIN_TILE_SIZE, Math.round(longerSide * fraction));
+    if (tileSize >= longerSide) continue;
 
-    if (code) {
-      foundCodes.push(code.data);
-      
-      // Clear the detected QR code area to find additional codes
-      const loc = code.location;
-      context.beginPath();
-      context.moveTo(loc.topLeftCorner.x, loc.topLeftCorner.y);
-      context.lineTo(loc.topRightCorner.x, loc.topRightCorner.y);
-      context.lineTo(loc.bottomRightCorner.x, loc.bottomRightCorner.y);
-      context.lineTo(loc.bottomLeftCorner.x, loc.bottomLeftCorner.y);
-      context.closePath();
-      context.fillStyle = 'white';
-      context.fill();
-    } else {
-      break;
+    const tileCanvas = new OffscreenCanvas(tileSize, tileSize);
+    const tileContext = tileCanvas.getContext('2d', { willReadFrequently: true });
+    if (!tileContext) continue;
+    const step = Math.max(1, Math.floor(tileSize * (1 - TILE_OVERLAP)));
+
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        if (!withinBudget()) return foundCodes;
+        // Edge tiles are padded with white rather than shrunk
+        tileContext.fillStyle = 'white';
+        tileContext.fillRect(0, 0, tileSize, tileSize);
+        tileContext.putImageData(source, -x, -y, x, y, Math.min(tileSize, width - x), Math.min(tileSize, height - y));
+
+        scanAndClearLoop(tileContext, tileSize, tileSize, engines, withinBudget).forEach(code => {
+          foundCodes.push({ ...code, location: offsetCorners(code.location, x, y), strategy: `tiles@1/${Math.round(1 / fraction)}` });
+        });
+        if (x + tileSize >= width) break;
+      }
+      if (y + tileSize >= height) break;
     }
-    attempts++;
   }
 
   return foundCodes;
 };
 
+const scanImageData = (imageData: ImageData, engines: DecoderEngine[]): ScannedCode[] => {
+  const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return [];
+  context.putImageData(imageData, 0, 0);
+  return scanAndClearLoop(context, canvas.width, canvas.height, engines);
+};
+
+// Draw a region rotated about its centre onto a white canvas that fits it, and give the way back
+const rotateRegion = (
+  source: OffscreenCanvas,
+  region: { x: number; y: number; width: number; height: number },
+  degrees: number
+) => {
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotatedWidth = Math.abs(region.width * cos) + Math.abs(region.height * sin);
+  const rotatedHeight = Math.abs(region.width * sin) + Math.abs(region.height * cos);
+  const scale = Math.min(1, MAX_SCANNING_DIMENSION / Math.max(rotatedWidth, rotatedHeight));
+  const width = Math.ceil(rotatedWidth * scale);
+  const height = Math.ceil(rotatedHeight * scale);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, width, height);
+  context.translate(width / 2, height / 2);
+  context.rotate(radians);
+  context.scale(scale, scale);
+  context.drawImage(source, region.x, region.y, region.width, region.height,
+    -region.width / 2, -region.height / 2, region.width, region.height);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  const toSource = (point: QRPoint): QRPoint => {
+    const dx = (point.x - width / 2) / scale;
+    const dy = (point.y - height / 2) / scale;
+    return {
+      x: region.x + region.width / 2 + dx * cos + dy * sin,
+      y: region.y + region.height / 2 - dx * sin + dy * cos
+    };
+  };
+  return { context, width, height, toSource };
+};
+
+// Use finder patterns to straighten skewed codes, then retry their regions at several rotations
+const recoverGeometry = (source: ImageData, engines: DecoderEngine[], deadline: number): ScannedCode[] => {
+  // Without finder-like patterns there is nothing to recover, so clean pages stay cheap
+  const patterns = findFinderPatterns(source);
+  if (patterns.length < 3) return [];
+
+  const candidates = findQRCandidates(patterns);
+  const foundCodes: ScannedCode[] = [];
+
+  for (const candidate of candidates) {
+    if (performance.now() >= deadline) return foundCodes;
+    const warped = warpCandidate(source, candidate);
+    scanImageData(warped.imageData, engines).forEach(code => {
+      foundCodes.push({ ...code, location: mapCorners(code.location, warped.toSource), strategy: 'geometry@perspective' });
+    });
+  }
+  if (foundCodes.length > 0) return foundCodes;
+
+  const sourceCanvas = new OffscreenCanvas(source.width, source.height);
+  sourceCanvas.getContext('2d')?.putImageData(source, 0, 0);
+  const regions = candidates.length > 0
+    ? candidates.map(candidate => candidateRegion(candidate, source.width, source.height))
+    : [{ x: 0, y: 0, width: source.width, height: source.height }];
+
+  for (const region of regions) {
+    for (const angle of ROTATION_ANGLES) {
+      if (performance.now() >= deadline) return foundCodes;
+      const rotated = rotateRegion(sourceCanvas, region, angle);
+      if (!rotated) continue;
+      const codes = scanAndClearLoop(rotated.context, rotated.width, rotated.height, engines);
+      codes.forEach(code => foundCodes.push({ ...code, location: mapCorners(code.location, rotated.toSource), strategy: `geometry@rotate${angle > 0 ? '+' : ''}${angle}` }));
+      if (codes.length > 0) break;
+    }
+  }
+  return foundCodes;
+};
+
+// The time budget covers a whole image or PDF page, including every embedded image on it
+const profileDeadline = (): number =>
+  decodeOptions.profile.timeBudgetMs > 0 ? performance.now() + decodeOptions.profile.timeBudgetMs : Infinity;
+
+interface ScanOutcome {
+  qrs: DecodedQR[];
+  timings: StrategyTiming[];
+}
+
 // Simplified but effective QR detection
-const findAllQrCodesInImageData = async (imageData: ImageData, pageNum: number = 1): Promise<DecodedQR[]> => {
+// sourceScale is the factor the source was rendered at, so locations can be mapped back
+const findAllQrCodesInImageData = async (
+  imageData: ImageData,
+  pageNum: number = 1,
+  sourceScale: number = 1,
+  deadline: number = profileDeadline()
+): Promise<ScanOutcome> => {
   const canvas = new OffscreenCanvas(imageData.width, imageData.height);
   const context = canvas.getContext('2d', { willReadFrequently: true });
   if (!context) {
     if (IS_DEVELOPMENT) {
       console.error('Could not get OffscreenCanvas context.');
     }
-    return [];
+    return { qrs: [], timings: [] };
   }
 
   context.putImageData(imageData, 0, 0);
   const originalImageData = context.getImageData(0, 0, canvas.width, canvas.height);
-  const allCodes = new Set<string>();
+  const engines = getDecoderEngines(decodeOptions.engines);
+  const allCodes: DecodedQR[] = [];
+  const timings: StrategyTiming[] = [];
+  const collect = (codes: ScannedCode[], scale: number, strategy: string) => {
+    codes.forEach(code => addUniqueCode(allCodes, {
+      data: code.data,
+      page: pageNum,
+      format: code.format,
+      engine: code.engine,
+      location: toSourceLocation(code.location, scale),
+      metadata: code.metadata,
+      strategy: code.strategy ?? strategy
+    }));
+  };
+  // Record how long each strategy ran and how many new codes it added
+  const timed = (strategy: StrategyTiming['strategy'], run: () => void) => {
+    const startTime = performance.now();
+    const codesBefore = allCodes.length;
+    run();
+    timings.push({ strategy, page: pageNum, durationMs: performance.now() - startTime, codesFound: allCodes.length - codesBefore });
+  };
+  const { profile } = decodeOptions;
+  const uses = (strategy: DetectionStrategy) => profile.strategies.includes(strategy);
+  // Every scan stops when the budget runs out; stopAtFirstResult only skips the strategies after one that found codes,
+  // so a strategy that finds something still returns every code it sees
+  const withinBudget = () => performance.now() < deadline;
+  const shouldContinue = () => withinBudget() && (!profile.stopAtFirstResult || allCodes.length === 0);
 
   try {
     // Strategy 1: Direct scan
-    let codes = scanAndClearLoop(context, canvas.width, canvas.height);
-    codes.forEach(code => allCodes.add(code));
+    let codes: ScannedCode[] = [];
+    timed('direct', () => {
+      codes = scanAndClearLoop(context, canvas.width, canvas.height, engines, withinBudget);
+      collect(codes, sourceScale, 'direct');
+    });
+
+    // Auto-inversion: a mostly dark image probably holds light-on-dark codes, so read it inverted straight away
+    if (allCodes.length === 0 && uses('color') && isMostlyDark(originalImageData)) {
+      timed('auto-invert', () => {
+        context.putImageData(invertImageData(originalImageData), 0, 0);
+        codes = scanAndClearLoop(context, canvas.width, canvas.height, engines, withinBudget);
+        collect(codes, sourceScale, 'auto-invert');
+      });
+    }
+
+    // Strategy 2: Tiled scanning. On a dense page, e.g. a sheet of identical stickers, the direct scan hits its limit
+    // or cannot pick one symbol out of many, so tiles then finish its job in every profile
+    const isDensePage = () => codes.length >= MAX_CODES_PER_SCAN ||
+      findFinderPatterns(originalImageData).length >= DENSE_PAGE_FINDER_PATTERNS + codes.length * 3;
+    if ((uses('tiles') && shouldContinue()) || (withinBudget() && isDensePage())) {
+      timed('tiles', () => collect(scanTiles(originalImageData, engines, withinBudget), sourceScale, 'tiles'));
+    }
     
-    if (allCodes.size === 0) {
-      // Strategy 2: Multi-threshold binarization
-      const thresholds = [128, 85, 170, 100, 155];
-      
-      for (const threshold of thresholds) {
-        context.putImageData(originalImageData, 0, 0);
-        const binarized = binarizeImageData(
-          new ImageData(new Uint8ClampedArray(originalImageData.data), originalImageData.width, originalImageData.height), 
-          threshold
-        );
-        context.putImageData(binarized, 0, 0);
-        codes = scanAndClearLoop(context, canvas.width, canvas.height);
-        codes.forEach(code => allCodes.add(code));
-        
-        if (allCodes.size > 0) break;
-      }
+    if (uses('preprocessing') && shouldContinue()) {
+      // Strategy 3: Preprocessing pipelines, in the configured order
+      const pipelines = decodeOptions.preprocessing.filter(pipeline => pipeline.enabled && pipeline.steps.length > 0);
+
+      timed('preprocessing', () => {
+        for (const pipeline of pipelines) {
+          context.putImageData(applyPreprocessing(originalImageData, pipeline.steps), 0, 0);
+          codes = scanAndClearLoop(context, canvas.width, canvas.height, engines);
+          collect(codes, sourceScale, `preprocessing@${pipeline.id}`);
+
+          if (codes.length > 0 && IS_DEVELOPMENT) {
+            console.log(`QR Detection - Page ${pageNum}: found by ${describePipeline(pipeline.steps)}`);
+          }
+          if (!shouldContinue()) break;
+        }
+      });
     }
 
-    // Strategy 3: Scale variations (if still no results)
-    if (allCodes.size === 0) {
+    // Strategy 4: Scale variations
+    if (uses('scales') && shouldContinue()) {
       const scales = [0.8, 1.2, 0.6, 1.5];
       
-      for (const scale of scales) {
-        const scaledWidth = Math.floor(canvas.width * scale);
-        const scaledHeight = Math.floor(canvas.height * scale);
-        
-        if (scaledWidth < 50 || scaledHeight < 50) continue;
+      timed('scales', () => {
+        for (const scale of scales) {
+          const scaledWidth = Math.floor(canvas.width * scale);
+          const scaledHeight = Math.floor(canvas.height * scale);
+          
+          if (scaledWidth < 50 || scaledHeight < 50) continue;
 
-        const scaledCanvas = new OffscreenCanvas(scaledWidth, scaledHeight);
-        const scaledContext = scaledCanvas.getContext('2d');
-        if (!scaledContext) continue;
+          const scaledCanvas = new OffscreenCanvas(scaledWidth, scaledHeight);
+          const scaledContext = scaledCanvas.getContext('2d');
+          if (!scaledContext) continue;
 
-        const tempCanvas = new OffscreenCanvas(canvas.width, canvas.height);
-        const tempContext = tempCanvas.getContext('2d');
-        if (!tempContext) continue;
+          const tempCanvas = new OffscreenCanvas(canvas.width, canvas.height);
+          const tempContext = tempCanvas.getContext('2d');
+          if (!tempContext) continue;
 
-        tempContext.putImageData(originalImageData, 0, 0);
-        scaledContext.drawImage(tempCanvas, 0, 0, scaledWidth, scaledHeight);
+          tempContext.putImageData(originalImageData, 0, 0);
+          scaledContext.drawImage(tempCanvas, 0, 0, scaledWidth, scaledHeight);
 
-        codes = scanAndClearLoop(scaledContext, scaledWidth, scaledHeight);
-        codes.forEach(code => allCodes.add(code));
-        
-        if (allCodes.size > 0) break;
-      }
+          codes = scanAndClearLoop(scaledContext, scaledWidth, scaledHeight, engines);
+          collect(codes, sourceScale * (scaledWidth / canvas.width), `scale@${scale}`);
+          
+          if (!shouldContinue()) break;
+        }
+      });
+    }
+
+    // Strategy 5: Inverted and coloured codes, via inversion, dominant-colour binarisation and single channels
+    if (uses('color') && shouldContinue()) {
+      timed('color', () => {
+        for (const variant of createColorVariants(originalImageData)) {
+          const variantImageData = variant.create();
+          if (!variantImageData) continue;
+
+          context.putImageData(variantImageData, 0, 0);
+          codes = scanAndClearLoop(context, canvas.width, canvas.height, engines);
+          collect(codes, sourceScale, `color@${variant.id}`);
+
+          if (codes.length > 0 && IS_DEVELOPMENT) {
+            console.log(`QR Detection - Page ${pageNum}: found by ${variant.id} variant`);
+          }
+          if (!shouldContinue()) break;
+        }
+      });
+    }
+
+    // Strategy 6: Rotation and perspective recovery for skewed photos
+    if (uses('geometry') && shouldContinue()) {
+      timed('geometry', () => collect(recoverGeometry(originalImageData, engines, deadline), sourceScale, 'geometry'));
     }
 
-    const finalQRs = Array.from(allCodes).map(data => ({ data, page: pageNum }));
-    
     if (IS_DEVELOPMENT) {
-      console.log(`QR Detection - Page ${pageNum}: Found ${finalQRs.length} codes`);
+      console.log(`QR Detection - Page ${pageNum}: Found ${allCodes.length} codes`);
     }
-    return finalQRs;
+    return { qrs: allCodes, timings };
 
   } catch (error) {
     if (IS_DEVELOPMENT) {
       console.error('Error in QR detection:', error);
     }
-    return [];
+    return { qrs: allCodes, timings };
   }
 };
 
-// Enhanced image processing
-const decodeQrFromImage = async (file: File): Promise<DecodedQR[]> => {
-  try {
-    const blob = new Blob([file]);
-    const imageBitmap = await createImageBitmap(blob);
-    
-    let { width, height } = imageBitmap;
-    
-    // Adaptive scaling
-    if (width > MAX_SCANNING_DIMENSION || height > MAX_SCANNING_DIMENSION) {
-      const ratio = Math.min(MAX_SCANNING_DIMENSION / width, MAX_SCANNING_DIMENSION / height);
-      width = Math.floor(width * ratio);
-      height = Math.floor(height * ratio);
-    } else if (width < ADAPTIVE_SCALING_THRESHOLD && height < ADAPTIVE_SCALING_THRESHOLD) {
-      const scaleFactor = Math.min(2, ADAPTIVE_SCALING_THRESHOLD / Math.max(width, height));
-      width = Math.floor(width * scaleFactor);
-      height = Math.floor(height * scaleFactor);
+// Decode each embedded raster image once at native size, then place its codes on the page
+const decodeEmbeddedImages = async (pdf: PDFDocumentProxy, pageNum: number, deadline: number): Promise<ScanOutcome> => {
+  const images = await extractPageImages(pdf, pageNum);
+  const allCodes: DecodedQR[] = [];
+  const timings: StrategyTiming[] = [];
+
+  for (const image of images) {
+    const outcome = await findAllQrCodesInImageData(image.imageData, pageNum, image.scale, deadline);
+    const qrs = outcome.qrs;
+    timings.push(...outcome.timings.map(timing => ({ ...timing, pdfSource: 'embedded-image' as const })));
+    // An image painted several times yields one code per placement
+    image.placements.forEach(toPage => {
+      qrs.forEach(qr => addUniqueCode(allCodes, {
+        ...qr,
+        location: qr.location && mapLocation(qr.location, toPage),
+        pdfSource: 'embedded-image'
+      }));
+    });
+  }
+
+  if (IS_DEVELOPMENT) {
+    console.log(`Embedded images - Page ${pageNum}: ${images.length} images, ${allCodes.length} codes`);
+  }
+  return { qrs: allCodes, timings };
+};
+
+// Scale a decoded image into the range the decoders handle best, then scan it
+const scanImageSource = async (source: ImageBitmap | OffscreenCanvas, deadline: number, pageNum = 1): Promise<ScanOutcome> => {
+  let { width, height } = source;
+  
+  // Adaptive scaling
+  if (width > MAX_SCANNING_DIMENSION || height > MAX_SCANNING_DIMENSION) {
+    const ratio = Math.min(MAX_SCANNING_DIMENSION / width, MAX_SCANNING_DIMENSION / height);
+    width = Math.floor(width * ratio);
+    height = Math.floor(height * ratio);
+  } else if (width < ADAPTIVE_SCALING_THRESHOLD && height < ADAPTIVE_SCALING_THRESHOLD) {
+    const scaleFactor = Math.min(2, ADAPTIVE_SCALING_THRESHOLD / Math.max(width, height));
+    width = Math.floor(width * scaleFactor);
+    height = Math.floor(height * scaleFactor);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context for image.');
+  
+  context.drawImage(source, 0, 0, width, height);
+  const imageData = context.getImageData(0, 0, width, height);
+  return findAllQrCodesInImageData(imageData, pageNum, width / source.width, deadline);
+};
+
+interface ImageDecodeOutcome extends ScanOutcome {
+  preview?: OffscreenCanvas; // Only for formats the main thread cannot preview itself
+}
+
+// Enhanced image processing; files that cannot be decoded at all are reported as errors by processFile
+const decodeQrFromImage = async (file: File, format: InputFormat): Promise<ImageDecodeOutcome> => {
+  const deadline = profileDeadline();
+
+  if (format === 'heic') {
+    const canvas = await decodeHeic(file);
+    return { ...await scanImageSource(canvas, deadline), preview: canvas };
+  }
+
+  if (format === 'gif' || format === 'apng') {
+    // Frames share one budget; codes repeated across frames at the same place are kept once
+    const allCodes: DecodedQR[] = [];
+    const timings: StrategyTiming[] = [];
+    const frames = await decodeAnimationFrames(file, format);
+    for (const { frame, imageData } of frames) {
+      const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+      canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+      const outcome = await scanImageSource(canvas, deadline);
+      // Static GIFs are one frame, which is not worth labelling
+      outcome.qrs.forEach(qr => addUniqueCode(allCodes, frames.length > 1 ? { ...qr, frame } : qr));
+      timings.push(...outcome.timings);
     }
+    return { qrs: allCodes, timings };
+  }
 
-    const canvas = new OffscreenCanvas(width, height);
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error('Could not get canvas context for image.');
-    
-    context.drawImage(imageBitmap, 0, 0, width, height);
-    const imageData = context.getImageData(0, 0, width, height);
-    const qrs = await findAllQrCodesInImageData(imageData, 1);
-    
+  const imageBitmap = await createImageBitmap(new Blob([file]));
+  try {
+    return await scanImageSource(imageBitmap, deadline);
+  } finally {
     imageBitmap.close();
-    return qrs;
-    
+  }
+};
+
+const createThumbnail = async (fileName: string, page: number, canvas: OffscreenCanvas): Promise<ThumbnailBlob | undefined> => {
+  try {
+    return {
+      fileName,
+      page,
+      blob: await renderThumbnailBlob(canvas, canvas.width, canvas.height),
+      width: canvas.width,
+      height: canvas.height
+    };
   } catch (error) {
     if (IS_DEVELOPMENT) {
-      console.error('Error processing image:', error);
+      console.error(`Failed to create thumbnail for ${fileName} page ${page}:`, error);
     }
-    return [];
+    return undefined;
   }
 };
 
 // File processing
-const processFile = async (file: File): Promise<DecodedFileResult> => {
+const processFile = async (file: File, format: InputFormat, relativePath?: string): Promise<{ result: DecodedFileResult; thumbnail?: ThumbnailBlob }> => {
   const startTime = performance.now();
   
   try {
-    const qrs = await decodeQrFromImage(file);
+    const { qrs, timings, preview } = await decodeQrFromImage(file, format);
     const processingTime = performance.now() - startTime;
     
     if (IS_DEVELOPMENT) {
@@ -189,42 +555,62 @@ const processFile = async (file: File): Promise<DecodedFileResult> => {
       });
     }
     
-    return { 
-      fileName: file.name, 
-      status: qrs.length > 0 ? 'success' : 'no_qr_found', 
-      qrs,
-      processingTime 
+    return {
+      result: { 
+        fileName: file.name, 
+        relativePath,
+        status: qrs.length > 0 ? 'success' : 'no_qr_found', 
+        qrs,
+        processingTime,
+        profile: decodeOptions.profile.id,
+        strategy: summarizeStrategies(qrs),
+        strategyTimings: timings
+      },
+      thumbnail: preview && await createThumbnail(relativePath ?? file.name, 1, preview)
     };
   } catch (e) {
     const message = e instanceof Error ? e.message : 'An unknown error occurred.';
     if (IS_DEVELOPMENT) {
       console.error(`Error processing file ${file.name}:`, message);
     }
-    return { 
-      fileName: file.name, 
-      status: 'error', 
-      qrs: [], 
-      error: message 
+    return {
+      result: { 
+        fileName: file.name, 
+        relativePath,
+        status: 'error', 
+        qrs: [], 
+        error: message 
+      }
     };
   }
 };
 
 // Message queue handling with improved performance
+// The main-thread pool owns batching and completion; this queue only orders tasks sent to this worker
 interface QueueItem {
-  type: 'image' | 'imageData';
+  taskId: number;
+  type: 'image' | 'imageData' | 'pdfInfo' | 'pdfPage' | 'tiffInfo' | 'tiffPage';
   file?: File;
+  format?: InputFormat;
+  relativePath?: string;
+  docKey?: string; // Identifies a PDF or TIFF across tasks so each worker loads it once
   imageData?: ImageData;
   pageNum?: number;
+  sourceScale?: number;
   priority: number;
   timestamp: number;
   parentFileName?: string;
 }
 
-let processingComplete = false;
+let decodeOptions: DecodeOptions = {
+  engines: ['jsqr'],
+  extractEmbeddedImages: true,
+  preprocessing: DEFAULT_PREPROCESSING_PIPELINES,
+  profile: DEFAULT_DETECTION_PROFILE
+};
 let messageQueue: QueueItem[] = [];
 let isProcessing = false;
-let processedPages = 0;
-let totalExpectedPages = 0;
+let cancelGeneration = 0; // Bumped on cancel so the task in progress reports itself as cancelled
 
 const processQueue = async (): Promise<void> => {
   if (isProcessing || messageQueue.length === 0) return;
@@ -233,49 +619,143 @@ const processQueue = async (): Promise<void> => {
   // Sort queue by priority (higher priority first)
   messageQueue.sort((a, b) => b.priority - a.priority);
   const item = messageQueue.shift()!;
+  const generation = cancelGeneration;
 
   try {
     if (item.type === 'image') {
-      const result = await processFile(item.file!);
-      self.postMessage({ type: 'result', payload: result });
+      const { result, thumbnail } = await processFile(item.file!, item.format || 'raster', item.relativePath);
+      self.postMessage({ type: 'result', taskId: item.taskId, payload: result, thumbnail });
     } else if (item.type === 'imageData') {
-      const qrs = await findAllQrCodesInImageData(item.imageData!, item.pageNum || 1);
-      processedPages++;
+      const startTime = performance.now();
+      const { qrs, timings } = await findAllQrCodesInImageData(item.imageData!, item.pageNum || 1, item.sourceScale || 1);
       
       // Always send result for every page
       self.postMessage({ 
         type: 'result', 
+        taskId: item.taskId,
         payload: { 
           fileName: `Page ${item.pageNum}`,
           status: qrs.length > 0 ? 'success' : 'no_qr_found',
           qrs,
           pageNumber: item.pageNum,
-          parentFileName: item.parentFileName
+          parentFileName: item.parentFileName,
+          processingTime: performance.now() - startTime,
+          profile: decodeOptions.profile.id,
+          strategy: summarizeStrategies(qrs),
+          strategyTimings: timings
         } 
       });
+    } else if (item.type === 'pdfInfo') {
+      const pdf = await loadPdfDocument(item.docKey!, item.file!);
+      self.postMessage({ type: 'pdfInfo', taskId: item.taskId, payload: { numPages: pdf.numPages } });
+    } else if (item.type === 'pdfPage') {
+      const startTime = performance.now();
+      const pageNum = item.pageNum || 1;
+      const deadline = profileDeadline();
+      const pdf = await loadPdfDocument(item.docKey!, item.file!);
+
+      let qrs: DecodedQR[] = [];
+      const timings: StrategyTiming[] = [];
+      if (decodeOptions.extractEmbeddedImages) {
+        try {
+          const embedded = await decodeEmbeddedImages(pdf, pageNum, deadline);
+          qrs = embedded.qrs;
+          timings.push(...embedded.timings);
+        } catch (error) {
+          if (IS_DEVELOPMENT) {
+            console.error(`Embedded image extraction failed on page ${pageNum}:`, error);
+          }
+        }
+      }
+
+      // Fall back to rasterising the page; when images already gave results only a preview is needed
+      const rendered = await renderPdfPage(pdf, pageNum, qrs.length > 0 ? THUMBNAIL_MAX_DIMENSION : undefined);
+      if (qrs.length === 0) {
+        const pageOutcome = await findAllQrCodesInImageData(rendered.imageData, pageNum, rendered.renderScale, deadline);
+        qrs = pageOutcome.qrs.map(qr => ({ ...qr, pdfSource: 'page-render' }));
+        timings.push(...pageOutcome.timings.map(timing => ({ ...timing, pdfSource: 'page-render' as const })));
+      }
+
+      let thumbnail: ThumbnailBlob | undefined;
+      try {
+        thumbnail = {
+          fileName: item.parentFileName ?? item.file!.name,
+          page: pageNum,
+          blob: await renderThumbnailBlob(rendered.canvas, rendered.canvas.width, rendered.canvas.height),
+          width: rendered.pageWidth,
+          height: rendered.pageHeight
+        };
+      } catch (error) {
+        if (IS_DEVELOPMENT) {
+          console.error(`Failed to create thumbnail for page ${pageNum}:`, error);
+        }
+      }
 
-      // Send progress update
       self.postMessage({
-        type: 'progress',
+        type: 'result',
+        taskId: item.taskId,
         payload: {
-          processed: processedPages,
-          total: totalExpectedPages,
-          currentPage: item.pageNum
-        }
+          fileName: `Page ${pageNum}`,
+          status: qrs.length > 0 ? 'success' : 'no_qr_found',
+          qrs,
+          pageNumber: pageNum,
+          parentFileName: item.parentFileName,
+          processingTime: performance.now() - startTime,
+          profile: decodeOptions.profile.id,
+          strategy: summarizeStrategies(qrs),
+          strategyTimings: timings
+        },
+        thumbnail
+      });
+    } else if (item.type === 'tiffInfo') {
+      const tiff = await loadTiffDocument(item.docKey!, item.file!);
+      self.postMessage({ type: 'tiffInfo', taskId: item.taskId, payload: { numPages: tiff.pages.length } });
+    } else if (item.type === 'tiffPage') {
+      const startTime = performance.now();
+      const pageNum = item.pageNum || 1;
+      const tiff = await loadTiffDocument(item.docKey!, item.file!);
+      const canvas = await decodeTiffPage(tiff, pageNum);
+      const { qrs, timings } = await scanImageSource(canvas, profileDeadline(), pageNum);
+      const thumbnail = await createThumbnail(item.parentFileName ?? item.file!.name, pageNum, canvas);
+
+      self.postMessage({
+        type: 'result',
+        taskId: item.taskId,
+        payload: {
+          fileName: `Page ${pageNum}`,
+          status: qrs.length > 0 ? 'success' : 'no_qr_found',
+          qrs,
+          pageNumber: pageNum,
+          parentFileName: item.parentFileName,
+          processingTime: performance.now() - startTime,
+          profile: decodeOptions.profile.id,
+          strategy: summarizeStrategies(qrs),
+          strategyTimings: timings
+        },
+        thumbnail
       });
     }
   } catch (error) {
-    if (IS_DEVELOPMENT) {
-      console.error('Error processing queue item:', error);
-    }
-    self.postMessage({
-      type: 'error',
-      payload: {
-        message: error instanceof Error ? error.message : 'Processing error',
-        item: item.type,
-        fileName: item.type === 'image' ? item.file?.name : `Page ${item.pageNum}`
+    if (generation !== cancelGeneration) {
+      // Aborted loads and renders surface as errors; report them as cancellations instead
+      self.postMessage({ type: 'cancelled', taskId: item.taskId });
+    } else {
+      if (IS_DEVELOPMENT) {
+        console.error('Error processing queue item:', error);
       }
-    });
+      self.postMessage({
+        type: 'error',
+        taskId: item.taskId,
+        payload: {
+          message: error instanceof Error ? error.message : 'Processing error',
+          item: item.type,
+          fileName: item.type === 'image' || item.type === 'pdfInfo' || item.type === 'tiffInfo' ? item.file?.name : `Page ${item.pageNum}`,
+          relativePath: item.relativePath,
+          parentFileName: item.parentFileName,
+          pageNumber: item.type === 'pdfPage' || item.type === 'tiffPage' ? item.pageNum : undefined
+        }
+      });
+    }
   }
   
   isProcessing = false;
@@ -283,8 +763,6 @@ const processQueue = async (): Promise<void> => {
   if (messageQueue.length > 0) {
     // Use requestIdleCallback equivalent for better performance
     setTimeout(processQueue, 0);
-  } else if (processingComplete) {
-    self.postMessage({ type: 'complete', payload: { totalProcessed: processedPages } });
   }
 };
 
@@ -293,22 +771,17 @@ self.onmessage = async (event: MessageEvent) => {
   const data = event.data;
   
   switch (data.type) {
-    case 'allFilesSent':
-      processingComplete = true;
-      if (!isProcessing && messageQueue.length === 0) {
-        self.postMessage({ type: 'complete', payload: { totalProcessed: processedPages } });
-      }
-      break;
-      
-    case 'setPdfPageCount':
-      totalExpectedPages = data.pageCount;
-      processedPages = 0;
+    case 'configure':
+      decodeOptions = { ...decodeOptions, ...data.options };
       break;
       
     case 'image':
       messageQueue.push({
+        taskId: data.taskId,
         type: 'image',
         file: data.file,
+        format: data.format,
+        relativePath: data.relativePath,
         priority: 2,
         timestamp: Date.now()
       });
@@ -317,19 +790,88 @@ self.onmessage = async (event: MessageEvent) => {
       
     case 'imageData':
       messageQueue.push({
+        taskId: data.taskId,
         type: 'imageData',
         imageData: data.imageData,
         pageNum: data.pageNum,
+        sourceScale: data.renderScale,
+        parentFileName: data.parentFileName,
+        priority: 3,
+        timestamp: Date.now()
+      });
+      processQueue();
+      break;
+
+    case 'pdfInfo':
+      messageQueue.push({
+        taskId: data.taskId,
+        type: 'pdfInfo',
+        file: data.file,
+        docKey: data.docKey,
+        relativePath: data.relativePath,
+        priority: 4,
+        timestamp: Date.now()
+      });
+      processQueue();
+      break;
+
+    case 'pdfPage':
+      messageQueue.push({
+        taskId: data.taskId,
+        type: 'pdfPage',
+        file: data.file,
+        docKey: data.docKey,
+        pageNum: data.pageNum,
         parentFileName: data.parentFileName,
         priority: 3,
         timestamp: Date.now()
       });
       processQueue();
       break;
+
+    case 'tiffInfo':
+      messageQueue.push({
+        taskId: data.taskId,
+        type: 'tiffInfo',
+        file: data.file,
+        docKey: data.docKey,
+        relativePath: data.relativePath,
+        priority: 4,
+        timestamp: Date.now()
+      });
+      processQueue();
+      break;
+
+    case 'tiffPage':
+      messageQueue.push({
+        taskId: data.taskId,
+        type: 'tiffPage',
+        file: data.file,
+        docKey: data.docKey,
+        pageNum: data.pageNum,
+        parentFileName: data.parentFileName,
+        priority: 3,
+        timestamp: Date.now()
+      });
+      processQueue();
+      break;
+
+    case 'releaseDocuments':
+      releaseAllPdfDocuments();
+      releaseAllTiffDocuments();
+      break;
+
+    case 'cancel':
+      cancelGeneration++;
+      messageQueue.forEach(item => self.postMessage({ type: 'cancelled', taskId: item.taskId }));
+      messageQueue = [];
+      cancelPdfWork();
+      releaseAllTiffDocuments();
+      break;
       
     default:
       if (IS_DEVELOPMENT) {
         console.warn('Unknown message type:', data.type);
       }
   }
-}; 
\ No newline at end of file
+};
\ No newline at end of file
@@ -0,0 +1,28 @@
+const BEEP_FREQUENCY = 1760;
+const BEEP_DURATION_SECONDS = 0.12;
+const VIBRATION_MS = 80;
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so call this from the click that starts scanning
+export const primeScanFeedback = (): void => {
+  if (!audioContext && typeof AudioContext !== 'undefined') {
+    audioContext = new AudioContext();
+  }
+  audioContext?.resume().catch(() => {});
+};
+
+// A short beep plus a vibration where supported, e.g. on tablets
+export const signalNewScan = (): void => {
+  if (audioContext) {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = BEEP_FREQUENCY;
+    gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + BEEP_DURATION_SECONDS);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + BEEP_DURATION_SECONDS);
+  }
+  navigator.vibrate?.(VIBRATION_MS);
+};
@@ -0,0 +1,59 @@
+const FIRST_FRAME_TIMEOUT_MS = 5000;
+
+const timestampForName = () => new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+
+export const isScreenCaptureSupported = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+// Pasted screenshots all arrive as "image.png", so give them distinct names for the results list
+export const getPastedImageFiles = (clipboardData: DataTransfer | null): File[] => {
+  if (!clipboardData) return [];
+  const files = Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+
+  return files.map((file, index) => new File(
+    [file],
+    `Pasted image ${timestampForName()}${files.length > 1 ? ` (${index + 1})` : ''}.${file.type.split('/')[1] || 'png'}`,
+    { type: file.type }
+  ));
+};
+
+const waitForFirstFrame = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(() => reject(new Error('The shared screen did not produce a frame.')), FIRST_FRAME_TIMEOUT_MS);
+  const done = () => {
+    clearTimeout(timeout);
+    resolve();
+  };
+  if (video.readyState >= video.HAVE_CURRENT_DATA) {
+    done();
+  } else {
+    video.addEventListener('loadeddata', done, { once: true });
+  }
+});
+
+// Ask the user to share a screen, window or tab, grab one frame and stop sharing straight away
+export const captureDisplayFrame = async (): Promise<File> => {
+  const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  try {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.srcObject = stream;
+    await video.play();
+    await waitForFirstFrame(video);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context for screen capture.');
+    context.drawImage(video, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the captured frame.');
+    return new File([blob], `Screen capture ${timestampForName()}.png`, { type: 'image/png' });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
@@ -0,0 +1,33 @@
+import { DecodedQR, StrategyTiming } from '../types';
+
+export interface StrategyTotal {
+  strategy: StrategyTiming['strategy'];
+  runs: number; // One per image or page the strategy ran on
+  durationMs: number;
+  codesFound: number;
+}
+
+// Distinct strategies behind a file's codes, in the order they first appear
+export const summarizeStrategies = (qrs: DecodedQR[]): string | undefined => {
+  const strategies = [...new Set(qrs.map(qr => qr.strategy).filter(Boolean))];
+  return strategies.length > 0 ? strategies.join(', ') : undefined;
+};
+
+// Totals per strategy across pages, in the order strategies first ran
+export const totalStrategyTimings = (timings: StrategyTiming[]): StrategyTotal[] => {
+  const totals = new Map<StrategyTiming['strategy'], StrategyTotal>();
+  timings.forEach(timing => {
+    const total = totals.get(timing.strategy) ?? { strategy: timing.strategy, runs: 0, durationMs: 0, codesFound: 0 };
+    total.runs++;
+    total.durationMs += timing.durationMs;
+    total.codesFound += timing.codesFound;
+    totals.set(timing.strategy, total);
+  });
+  return [...totals.values()];
+};
+
+// Compact text for exports, e.g. "direct 12ms, preprocessing 340ms (1 found)"
+export const formatStrategyTimings = (timings: StrategyTiming[]): string =>
+  totalStrategyTimings(timings)
+    .map(total => `${total.strategy} ${Math.round(total.durationMs)}ms${total.codesFound > 0 ? ` (${total.codesFound} found)` : ''}`)
+    .join(', ');
@@ -0,0 +1,48 @@
+import { vi } from 'vitest';
+import { Canvas, ImageData as CanvasImageData } from '@napi-rs/canvas';
+import QRCode from 'qrcode';
+
+// Shared by the tests that run the decoder worker in Node
+export const MODULE_SIZE = 4;
+export const QUIET_ZONE = 12; // Modules of white around each symbol, as between stickers on a sheet
+
+export interface PlacedCode {
+  text: string;
+  x: number;
+  y: number;
+  moduleSize?: number;
+}
+
+// Draw QR symbols onto a white page, one module per moduleSize square of pixels
+export const renderCodes = (width: number, height: number, codes: PlacedCode[]): ImageData => {
+  const pixels = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const { text, x, y, moduleSize = MODULE_SIZE } of codes) {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (!modules.get(row, col)) continue;
+        for (let dy = 0; dy < moduleSize; dy++) {
+          for (let dx = 0; dx < moduleSize; dx++) {
+            const offset = ((y + (QUIET_ZONE + row) * moduleSize + dy) * width + x + (QUIET_ZONE + col) * moduleSize + dx) * 4;
+            pixels.fill(0, offset, offset + 3);
+          }
+        }
+      }
+    }
+  }
+  return new CanvasImageData(pixels, width, height) as unknown as ImageData;
+};
+
+// Load the worker module in this thread: it draws on OffscreenCanvas and answers through self.postMessage
+export const loadDecoderWorker = async () => {
+  const postMessage = vi.fn();
+  vi.stubGlobal('OffscreenCanvas', Canvas);
+  vi.stubGlobal('ImageData', CanvasImageData);
+  vi.stubGlobal('self', Object.assign(globalThis, { postMessage }));
+  await import('./qrWorker');
+  return postMessage;
+};
+
+export const sendToWorker = (message: unknown): void => {
+  self.onmessage!({ data: message } as MessageEvent);
+};
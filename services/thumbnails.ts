@@ -0,0 +1,49 @@
+import { PageThumbnail } from '../types';
+
+export const THUMBNAIL_MAX_DIMENSION = 640;
+
+// Rendered in a worker and sent as a Blob; object URLs are created on the main thread
+export interface ThumbnailBlob {
+  fileName: string;
+  page: number;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const renderThumbnailBlob = async (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Promise<Blob> => {
+  const ratio = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * ratio));
+  const height = Math.max(1, Math.round(sourceHeight * ratio));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context for thumbnail.');
+
+  context.drawImage(source, 0, 0, width, height);
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+};
+
+// Thumbnail dimensions match the bitmap the worker scans, so QR locations line up
+export const createImageThumbnail = async (file: File, fileName: string = file.name): Promise<PageThumbnail> => {
+  const imageBitmap = await createImageBitmap(file);
+  try {
+    const blob = await renderThumbnailBlob(imageBitmap, imageBitmap.width, imageBitmap.height);
+    return { fileName, page: 1, url: URL.createObjectURL(blob), width: imageBitmap.width, height: imageBitmap.height };
+  } finally {
+    imageBitmap.close();
+  }
+};
+
+// PDF pages are rendered at a scale, so width/height are given in page units
+export const createThumbnailFromBlob = ({ fileName, page, blob, width, height }: ThumbnailBlob): PageThumbnail => ({
+  fileName,
+  page,
+  url: URL.createObjectURL(blob),
+  width,
+  height
+});
+
+export const revokeThumbnails = (thumbnails: PageThumbnail[]): void => {
+  thumbnails.forEach(thumbnail => URL.revokeObjectURL(thumbnail.url));
+};
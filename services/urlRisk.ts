@@ -0,0 +1,168 @@
+import { ParsedPayload, UrlRiskReason } from '../types';
+
+// Offline heuristics only: nothing is looked up, so a clean result means "no known warning signs", not "safe"
+
+const DANGEROUS_SCHEMES = ['javascript', 'data', 'vbscript', 'file', 'blob'];
+
+const URL_SHORTENERS = [
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly', 'rebrand.ly',
+  'cutt.ly', 'shorturl.at', 'tiny.cc', 's.id', 'rb.gy', 'bl.ink', 't.ly', 'qrco.de', 'short.io', 'lnkd.in',
+  'shorte.st', 'adf.ly', 'soo.gd', 'clck.ru', 'u.to', 'tr.im', 'x.co', 'yourls.org', 'qr.ae', 'urlz.fr'
+];
+
+// TLDs over-represented in phishing and malware feeds, or easily confused with file names (zip, mov)
+const RISKY_TLDS = new Set([
+  'zip', 'mov', 'tk', 'ml', 'ga', 'cf', 'gq', 'top', 'xyz', 'icu', 'buzz', 'click', 'link', 'country', 'kim',
+  'work', 'support', 'rest', 'fit', 'loan', 'men', 'cam', 'bar', 'cyou', 'monster', 'quest', 'sbs', 'cfd', 'lol'
+]);
+
+const LONG_QUERY_LENGTH = 256;
+
+const PUNYCODE_BASE = 36;
+const PUNYCODE_TMIN = 1;
+const PUNYCODE_TMAX = 26;
+
+const adaptBias = (delta: number, numPoints: number, firstTime: boolean): number => {
+  delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((PUNYCODE_BASE - PUNYCODE_TMIN) * PUNYCODE_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNYCODE_BASE - PUNYCODE_TMIN));
+    k += PUNYCODE_BASE;
+  }
+  return k + Math.floor(((PUNYCODE_BASE - PUNYCODE_TMIN + 1) * delta) / (delta + 38));
+};
+
+const punycodeDigit = (code: number): number => {
+  if (code >= 48 && code <= 57) return code - 22; // 0-9 are 26-35
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return PUNYCODE_BASE;
+};
+
+// RFC 3492 decoding of one label without its "xn--" prefix; null if it is malformed
+const decodePunycode = (input: string): string | null => {
+  const delimiter = input.lastIndexOf('-');
+  const output = Array.from(input.slice(0, Math.max(0, delimiter)), char => char.codePointAt(0)!);
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+
+  for (let index = delimiter + 1; index < input.length;) {
+    const previousI = i;
+    for (let weight = 1, k = PUNYCODE_BASE; ; k += PUNYCODE_BASE) {
+      if (index >= input.length) return null;
+      const digit = punycodeDigit(input.charCodeAt(index++));
+      if (digit >= PUNYCODE_BASE) return null;
+      i += digit * weight;
+      const threshold = k <= bias ? PUNYCODE_TMIN : k >= bias + PUNYCODE_TMAX ? PUNYCODE_TMAX : k - bias;
+      if (digit < threshold) break;
+      weight *= PUNYCODE_BASE - threshold;
+    }
+    bias = adaptBias(i - previousI, output.length + 1, previousI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+const toUnicodeHost = (hostname: string): string =>
+  hostname.split('.').map(label => label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label).join('.');
+
+const describeScripts = (host: string): string => {
+  const scripts = [
+    /\p{Script=Latin}/u.test(host) && 'Latin',
+    /\p{Script=Cyrillic}/u.test(host) && 'Cyrillic',
+    /\p{Script=Greek}/u.test(host) && 'Greek'
+  ].filter(Boolean);
+  return scripts.length > 1
+    ? `mixes ${scripts.join(' and ')} letters, a common way to imitate a well-known site`
+    : 'uses non-ASCII characters that can look like a well-known site';
+};
+
+const isIpHost = (hostname: string): boolean =>
+  hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+
+// The first word of a link label that parses as a dotted host name, e.g. "www.paypal.com" in "Log in at www.paypal.com"
+const apparentDomain = (text: string): string | undefined => {
+  for (const word of text.split(/\s+/)) {
+    const candidate = word.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').split(/[/?#]/)[0].replace(/:\d+$/, '').replace(/[.,;:!)]+$/, '');
+    if (!/^(?:[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?\.)+\p{L}{2,}$/u.test(candidate)) continue;
+    try {
+      if (new URL(`http://${candidate}`).hostname) return candidate.toLowerCase();
+    } catch {
+      // Not a host after all
+    }
+  }
+  return undefined;
+};
+
+const sameSite = (host: string, domain: string): boolean =>
+  host === domain || host.endsWith(`.${domain}`) || domain.endsWith(`.${host}`);
+
+// displayText is a label shown instead of the URL, such as a bookmark title
+export const analyzeUrlRisk = (link: string, displayText?: string): UrlRiskReason[] => {
+  // Browsers drop tabs and newlines anywhere in a URL, so "java\tscript:" still runs
+  const normalized = link.replace(/[\t\n\r]/g, '').replace(/^[\u0000- ]+/, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1].toLowerCase();
+
+  if (scheme && DANGEROUS_SCHEMES.includes(scheme)) {
+    return [{ check: 'dangerous-scheme', message: `Uses the ${scheme}: scheme, which can run code or load content from outside any website` }];
+  }
+  if (scheme !== 'http' && scheme !== 'https') return [];
+
+  let url: URL;
+  try {
+    url = new URL(normalized);
+  } catch {
+    return [];
+  }
+
+  const reasons: UrlRiskReason[] = [];
+  const host = url.hostname.toLowerCase();
+
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    const unicodeHost = toUnicodeHost(host);
+    reasons.push({ check: 'punycode', message: `Internationalised domain "${unicodeHost}" (${host}) ${describeScripts(unicodeHost)}` });
+  }
+  if (isIpHost(host)) {
+    reasons.push({ check: 'ip-host', message: `Points at the IP address ${host} instead of a domain name` });
+  }
+  const shortener = URL_SHORTENERS.find(domain => host === domain || host.endsWith(`.${domain}`));
+  if (shortener) {
+    reasons.push({ check: 'shortener', message: `${shortener} is a link shortener that hides the real destination` });
+  }
+
+  // A label naming one site on a link to another, or "https://paypal.com@evil.example", which reads as paypal.com
+  const shown = displayText && apparentDomain(displayText);
+  if (shown && !sameSite(host, shown) && !sameSite(toUnicodeHost(host), shown)) {
+    reasons.push({ check: 'mismatched-text', message: `Labelled ${shown} but opens ${host}` });
+  } else if (url.username || url.password) {
+    reasons.push({ check: 'mismatched-text', message: `Text before "@" is not part of the address; the link opens ${host}` });
+  }
+
+  if (url.search.length - 1 > LONG_QUERY_LENGTH) {
+    reasons.push({ check: 'long-query', message: `Unusually long query string (${url.search.length - 1} characters) that can hide redirects or tracking data` });
+  }
+  const tld = host.slice(host.lastIndexOf('.') + 1);
+  if (!isIpHost(host) && RISKY_TLDS.has(tld)) {
+    reasons.push({ check: 'risky-tld', message: `The .${tld} domain ending is frequently used for phishing` });
+  }
+  return reasons;
+};
+
+// Every link a payload would render, so results can be badged without rendering them
+export const analyzePayloadRisk = (payload: ParsedPayload): UrlRiskReason[] => {
+  switch (payload.kind) {
+    case 'url':
+      return analyzeUrlRisk(payload.url, payload.title);
+    case 'text':
+      return analyzeUrlRisk(payload.text);
+    case 'contact':
+      return payload.urls.flatMap(url => analyzeUrlRisk(url));
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { WiFiCredentials } from '../types';
+import { decodeWifiPayload, encodeWifiPayload, getEscapedWifiFields } from './wifiPayload';
+
+const credentials = (overrides: Partial<WiFiCredentials>): WiFiCredentials => ({
+  ssid: 'Home',
+  password: 'secret',
+  security: 'WPA',
+  hidden: false,
+  ...overrides
+});
+
+describe('encodeWifiPayload', () => {
+  it('writes the fields phone cameras expect', () => {
+    expect(encodeWifiPayload(credentials({}))).toBe('WIFI:T:WPA;S:Home;P:secret;;');
+  });
+
+  it('escapes ; , : \\ and "', () => {
+    expect(encodeWifiPayload(credentials({ ssid: 'a;b,c:d\\e"f', password: 'p;w' })))
+      .toBe('WIFI:T:WPA;S:a\\;b\\,c\\:d\\\\e\\"f;P:p\\;w;;');
+  });
+
+  it('leaves out the password of open networks', () => {
+    expect(encodeWifiPayload(credentials({ security: 'nopass', password: 'unused' }))).toBe('WIFI:T:nopass;S:Home;;');
+  });
+
+  it('only writes enterprise fields for WPA2-EAP', () => {
+    expect(encodeWifiPayload(credentials({ eapMethod: 'PEAP', identity: 'me' }))).not.toContain('E:');
+  });
+});
+
+describe('decodeWifiPayload', () => {
+  it('reads fields in any order', () => {
+    expect(decodeWifiPayload('WIFI:P:secret;H:true;S:Home;T:WPA;;')).toMatchObject({
+      ssid: 'Home',
+      password: 'secret',
+      security: 'WPA',
+      hidden: true
+    });
+  });
+
+  it('reads keys case-insensitively and without the trailing ;;', () => {
+    expect(decodeWifiPayload('wifi:s:Home;t:WEP;p:key')).toMatchObject({ ssid: 'Home', security: 'WEP', password: 'key' });
+  });
+
+  it('strips the double quotes older generators put around values', () => {
+    expect(decodeWifiPayload('WIFI:T:WPA;S:"ABCDEF0123";P:"0123456789";;')).toMatchObject({
+      ssid: 'ABCDEF0123',
+      password: '0123456789'
+    });
+  });
+
+  it('keeps escaped quotes as part of the value', () => {
+    expect(decodeWifiPayload('WIFI:T:WPA;S:\\"Home\\";P:x;;').ssid).toBe('"Home"');
+  });
+
+  it('ignores the password of open networks', () => {
+    expect(decodeWifiPayload('WIFI:T:nopass;S:Cafe;P:stale;;').password).toBeUndefined();
+  });
+});
+
+describe('WIFI round trip', () => {
+  const cases: Array<[string, WiFiCredentials]> = [
+    ['plain WPA', credentials({})],
+    ['special characters', credentials({ ssid: 'my;net, "x": \\y', password: 'p;a:s\\s"w,rd' })],
+    ['hex-looking SSID and password', credentials({ ssid: 'ABCDEF01', password: '0123456789abcdef' })],
+    ['quoted SSID', credentials({ ssid: '"quoted"', password: '"pass"' })],
+    ['hidden network', credentials({ hidden: true })],
+    ['WPA3', credentials({ security: 'SAE' })],
+    ['WEP', credentials({ security: 'WEP', password: '0A1B2C3D4E' })],
+    ['open network', credentials({ security: 'nopass', password: '' })],
+    ['enterprise', credentials({
+      security: 'WPA2-EAP',
+      password: 'p@ss;word',
+      eapMethod: 'TTLS',
+      identity: 'DOMAIN\\user',
+      anonymousIdentity: 'anonymous@example.com',
+      phase2: 'MSCHAPV2'
+    })]
+  ];
+
+  it.each(cases)('%s', (_, original) => {
+    const decoded = decodeWifiPayload(encodeWifiPayload(original));
+    const enterprise = original.security === 'WPA2-EAP';
+    expect(decoded).toEqual({
+      kind: 'wifi',
+      ssid: original.ssid,
+      password: original.security === 'nopass' || !original.password ? undefined : original.password,
+      security: original.security,
+      hidden: original.hidden,
+      eapMethod: enterprise ? original.eapMethod : undefined,
+      identity: enterprise ? original.identity : undefined,
+      anonymousIdentity: enterprise ? original.anonymousIdentity : undefined,
+      phase2: enterprise ? original.phase2 : undefined
+    });
+  });
+});
+
+describe('getEscapedWifiFields', () => {
+  it('names the fields that needed escaping', () => {
+    expect(getEscapedWifiFields(credentials({ ssid: 'a;b', password: 'plain' }))).toEqual(['Network name']);
+  });
+
+  it('ignores fields that are not encoded', () => {
+    expect(getEscapedWifiFields(credentials({ security: 'nopass', password: 'a:b', identity: 'x;y' }))).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { WiFiCredentials, WiFiSecurity, WifiPayload } from '../types';
+import { escapeMecardValue, MecardField, mecardValues, needsMecardEscaping, splitMecardFields, unescapeMecardValue } from './mecardFields';
+
+// WIFI: payloads as read by Android and iOS cameras (the ZXing format): WIFI:T:WPA;S:ssid;P:password;H:true;;
+// with \ ; , : and " backslash-escaped, plus E, A, I and PH2 for WPA2-EAP networks
+
+export const WIFI_SECURITY_LABELS: Record<WiFiSecurity, string> = {
+  WPA: 'WPA/WPA2',
+  SAE: 'WPA3',
+  'WPA2-EAP': 'WPA2/WPA3 Enterprise',
+  WEP: 'WEP',
+  nopass: 'No Password'
+};
+
+export const EAP_METHODS = ['PEAP', 'TTLS', 'TLS', 'PWD', 'SIM', 'AKA', "AKA'"];
+
+export const EAP_PHASE2_METHODS = ['MSCHAPV2', 'GTC', 'PAP', 'MSCHAP'];
+
+const field = (key: string, value: string | undefined) => value ? `${key}:${escapeMecardValue(value)};` : '';
+
+export const encodeWifiPayload = (credentials: WiFiCredentials): string => {
+  const enterprise = credentials.security === 'WPA2-EAP';
+  return 'WIFI:' +
+    field('T', credentials.security) +
+    field('S', credentials.ssid) +
+    (credentials.security === 'nopass' ? '' : field('P', credentials.password)) +
+    (credentials.hidden ? 'H:true;' : '') +
+    (enterprise ? field('E', credentials.eapMethod) + field('A', credentials.anonymousIdentity) + field('I', credentials.identity) + field('PH2', credentials.phase2) : '') +
+    ';';
+};
+
+// Names of the fields whose values contain characters that have to be escaped; older scanners may misread them
+export const getEscapedWifiFields = (credentials: WiFiCredentials): string[] => {
+  const enterprise = credentials.security === 'WPA2-EAP';
+  const fields: Array<[string, string | undefined, boolean]> = [
+    ['Network name', credentials.ssid, true],
+    ['Password', credentials.password, credentials.security !== 'nopass'],
+    ['Identity', credentials.identity, enterprise],
+    ['Anonymous identity', credentials.anonymousIdentity, enterprise]
+  ];
+  return fields.filter(([, value, used]) => used && !!value && needsMecardEscaping(value)).map(([name]) => name);
+};
+
+// Older generators wrap values that look like hex in unescaped double quotes
+const unquote = (fields: MecardField[], key: string): string | undefined => {
+  const raw = fields.find(([name, value]) => name === key && value !== '')?.[1];
+  if (raw === undefined) return undefined;
+  const quoted = /^"((?:[^\\"]|\\.)*)"$/s.exec(raw);
+  return unescapeMecardValue(quoted ? quoted[1] : raw);
+};
+
+export const decodeWifiPayload = (data: string): WifiPayload => {
+  const fields = splitMecardFields(data.replace(/^WIFI:/i, ''));
+  const security = mecardValues(fields, 'T')[0];
+  return {
+    kind: 'wifi',
+    ssid: unquote(fields, 'S') ?? '',
+    password: security?.toLowerCase() === 'nopass' ? undefined : unquote(fields, 'P'),
+    security,
+    hidden: mecardValues(fields, 'H')[0]?.toLowerCase() === 'true',
+    eapMethod: mecardValues(fields, 'E')[0],
+    identity: unquote(fields, 'I'),
+    anonymousIdentity: unquote(fields, 'A'),
+    phase2: mecardValues(fields, 'PH2')[0]
+  };
+};
@@ -0,0 +1,375 @@
+import { DecodedFileResult, DecodeOptions } from '../types';
+import { ThumbnailBlob } from './thumbnails';
+
+const IS_DEVELOPMENT = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
+const MAX_POOL_SIZE = 8;
+const SHUTDOWN_TIMEOUT_MS = 5000;
+const MAX_WORKER_RESTARTS = 3;
+
+export interface WorkerPoolTask {
+  type: 'image' | 'imageData' | 'pdfInfo' | 'pdfPage' | 'tiffInfo' | 'tiffPage';
+  label: string; // Shown in per-worker progress, e.g. "invoice.pdf p.12"
+  message: Record<string, unknown>;
+  transfer?: Transferable[];
+}
+
+export interface WorkerStatus {
+  id: number;
+  busy: boolean;
+  currentTask?: string;
+  queued: number;
+  completed: number;
+  stolen: number; // Tasks this worker took from another worker's queue
+}
+
+export interface WorkerPoolProgress {
+  workers: WorkerStatus[];
+  submitted: number;
+  completed: number;
+  pagesProcessed: number;
+  paused: boolean;
+  cancelled: boolean;
+}
+
+export interface WorkerTaskError {
+  message: string;
+  fileName?: string;
+  relativePath?: string;
+  parentFileName?: string;
+  pageNumber?: number; // Set for PDF and TIFF page tasks, which belong to parentFileName
+}
+
+export interface WorkerPoolCallbacks {
+  onResult: (result: DecodedFileResult, thumbnail?: ThumbnailBlob) => void;
+  onError: (error: WorkerTaskError) => void;
+  onProgress: (progress: WorkerPoolProgress) => void;
+  onComplete: (progress: WorkerPoolProgress) => void;
+}
+
+export interface WorkerPool {
+  size: number;
+  configure: (options: DecodeOptions) => void;
+  beginBatch: () => void;
+  // Resolves with the worker's reply payload once the task finishes, or undefined if it failed
+  submit: (task: WorkerPoolTask) => Promise<unknown>;
+  finishBatch: () => void;
+  broadcast: (message: Record<string, unknown>) => void;
+  pause: () => void;
+  resume: () => void;
+  // Drops queued work and aborts in-flight tasks; results already reported are kept
+  cancel: () => void;
+  shutdown: () => Promise<void>;
+  terminate: () => void;
+}
+
+interface QueuedTask extends WorkerPoolTask {
+  taskId: number;
+  settle: (payload?: unknown) => void;
+}
+
+interface PoolWorker {
+  status: WorkerStatus;
+  worker: Worker;
+  deque: QueuedTask[];
+  inFlight: QueuedTask | null;
+  restarts: number;
+  dead: boolean;
+}
+
+// Leave one core for the main thread to keep the UI responsive
+export const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, Math.min(cores - 1, MAX_POOL_SIZE));
+};
+
+export const createWorkerPool = (
+  createWorker: () => Worker,
+  callbacks: WorkerPoolCallbacks,
+  size: number = getDefaultPoolSize()
+): WorkerPool => {
+  const poolWorkers: PoolWorker[] = [];
+  let decodeOptions: DecodeOptions | null = null;
+  let nextTaskId = 1;
+  let submitted = 0;
+  let completed = 0;
+  let pagesProcessed = 0;
+  let batchFinished = false;
+  let paused = false;
+  let cancelled = false;
+  let acceptingTasks = true;
+  let idleResolver: (() => void) | null = null;
+
+  const queuedCount = () => poolWorkers.reduce((sum, poolWorker) => sum + poolWorker.deque.length, 0);
+  const inFlightCount = () => poolWorkers.filter(poolWorker => poolWorker.inFlight).length;
+
+  const snapshot = (): WorkerPoolProgress => ({
+    workers: poolWorkers.map(poolWorker => ({ ...poolWorker.status, queued: poolWorker.deque.length })),
+    submitted,
+    completed,
+    pagesProcessed,
+    paused,
+    cancelled
+  });
+
+  const checkComplete = () => {
+    if (queuedCount() > 0 || inFlightCount() > 0) return;
+
+    if (idleResolver) {
+      idleResolver();
+      idleResolver = null;
+    }
+    if (batchFinished) {
+      batchFinished = false;
+      callbacks.onComplete(snapshot());
+    }
+  };
+
+  const dispatch = (poolWorker: PoolWorker, task: QueuedTask) => {
+    poolWorker.inFlight = task;
+    poolWorker.status.busy = true;
+    poolWorker.status.currentTask = task.label;
+    poolWorker.worker.postMessage({ ...task.message, type: task.type, taskId: task.taskId }, task.transfer || []);
+  };
+
+  // Idle workers take from the front of their own deque, or steal from the back of the longest one
+  const pump = () => {
+    if (paused) return;
+
+    for (const poolWorker of poolWorkers) {
+      if (poolWorker.inFlight || poolWorker.dead) continue;
+
+      let task = poolWorker.deque.shift();
+      if (!task) {
+        const victim = poolWorkers.reduce<PoolWorker | null>(
+          (longest, candidate) => candidate.deque.length > (longest?.deque.length ?? 0) ? candidate : longest,
+          null
+        );
+        task = victim?.deque.pop();
+        if (task) poolWorker.status.stolen++;
+      }
+
+      if (task) dispatch(poolWorker, task);
+    }
+  };
+
+  const completeTask = (poolWorker: PoolWorker, payload?: unknown, finished: boolean = true) => {
+    const task = poolWorker.inFlight;
+    poolWorker.inFlight = null;
+    poolWorker.status.busy = false;
+    poolWorker.status.currentTask = undefined;
+    if (finished) poolWorker.status.completed++;
+    completed++;
+    if (finished && (task?.type === 'pdfPage' || task?.type === 'tiffPage')) pagesProcessed++;
+    task?.settle(payload);
+
+    pump();
+    callbacks.onProgress(snapshot());
+    checkComplete();
+  };
+
+  // With no live workers left, queued tasks can never run, so fail them instead of hanging
+  const failStrandedTasks = () => {
+    if (poolWorkers.some(poolWorker => !poolWorker.dead)) return;
+
+    poolWorkers.forEach(poolWorker => {
+      poolWorker.deque.splice(0).forEach(task => {
+        completed++;
+        callbacks.onError({
+          message: 'No decoder workers available',
+          fileName: task.label,
+          parentFileName: task.message.parentFileName as string | undefined,
+          pageNumber: task.message.pageNum as number | undefined
+        });
+        task.settle();
+      });
+    });
+    callbacks.onProgress(snapshot());
+    checkComplete();
+  };
+
+  const spawn = (poolWorker: PoolWorker) => {
+    const worker = createWorker();
+
+    worker.addEventListener('message', (event: MessageEvent) => {
+      const { type, taskId, payload, thumbnail } = event.data;
+      if (!poolWorker.inFlight || poolWorker.inFlight.taskId !== taskId) {
+        if (IS_DEVELOPMENT) {
+          console.warn(`Worker ${poolWorker.status.id} sent ${type} for unknown task ${taskId}`);
+        }
+        return;
+      }
+
+      switch (type) {
+        case 'result':
+          callbacks.onResult(payload, thumbnail);
+          break;
+        case 'error':
+          callbacks.onError(payload);
+          completeTask(poolWorker);
+          return;
+        case 'pdfInfo':
+        case 'tiffInfo':
+          // Answered through the submit promise rather than the result callback
+          break;
+        case 'cancelled':
+          completeTask(poolWorker, undefined, false);
+          return;
+        default:
+          if (IS_DEVELOPMENT) {
+            console.warn('Unknown worker message type:', type);
+          }
+          return;
+      }
+      completeTask(poolWorker, payload);
+    });
+
+    // An uncaught worker failure loses its task, so report it and replace the worker
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      event.preventDefault();
+      const task = poolWorker.inFlight;
+      worker.terminate();
+
+      if (task) {
+        callbacks.onError({
+          message: event.message || 'Worker crashed',
+          fileName: task.label,
+          parentFileName: task.message.parentFileName as string | undefined,
+          pageNumber: task.message.pageNum as number | undefined
+        });
+      }
+      if (acceptingTasks && poolWorker.restarts < MAX_WORKER_RESTARTS) {
+        poolWorker.restarts++;
+        spawn(poolWorker);
+      } else {
+        poolWorker.dead = true;
+      }
+      if (task) completeTask(poolWorker);
+      failStrandedTasks();
+    });
+
+    poolWorker.worker = worker;
+    if (decodeOptions) {
+      worker.postMessage({ type: 'configure', options: decodeOptions });
+    }
+  };
+
+  for (let id = 1; id <= size; id++) {
+    const poolWorker: PoolWorker = {
+      status: { id, busy: false, queued: 0, completed: 0, stolen: 0 },
+      worker: null as unknown as Worker,
+      deque: [],
+      inFlight: null,
+      restarts: 0,
+      dead: false
+    };
+    spawn(poolWorker);
+    poolWorkers.push(poolWorker);
+  }
+
+  return {
+    size,
+
+    configure: (options) => {
+      decodeOptions = options;
+      poolWorkers.forEach(poolWorker => poolWorker.worker.postMessage({ type: 'configure', options }));
+    },
+
+    beginBatch: () => {
+      submitted = 0;
+      completed = 0;
+      pagesProcessed = 0;
+      batchFinished = false;
+      paused = false;
+      cancelled = false;
+      poolWorkers.forEach(poolWorker => {
+        poolWorker.status.completed = 0;
+        poolWorker.status.stolen = 0;
+      });
+    },
+
+    submit: (task) => {
+      if (!acceptingTasks || cancelled) return Promise.resolve(undefined);
+
+      // Place new work on the least loaded live worker; stealing evens out the rest
+      const candidates = poolWorkers.filter(poolWorker => !poolWorker.dead);
+      const target = (candidates.length > 0 ? candidates : poolWorkers).reduce((best, candidate) => {
+        const load = candidate.deque.length + (candidate.inFlight ? 1 : 0);
+        const bestLoad = best.deque.length + (best.inFlight ? 1 : 0);
+        return load < bestLoad ? candidate : best;
+      });
+      let settle: (payload?: unknown) => void = () => {};
+      const settled = new Promise<unknown>(resolve => { settle = resolve; });
+      target.deque.push({ ...task, taskId: nextTaskId++, settle });
+      submitted++;
+      pump();
+      callbacks.onProgress(snapshot());
+      failStrandedTasks();
+      return settled;
+    },
+
+    finishBatch: () => {
+      batchFinished = true;
+      checkComplete();
+    },
+
+    broadcast: (message) => {
+      poolWorkers.forEach(poolWorker => {
+        if (!poolWorker.dead) poolWorker.worker.postMessage(message);
+      });
+    },
+
+    // Tasks already running finish; nothing new is dispatched until resume
+    pause: () => {
+      if (cancelled) return;
+      paused = true;
+      callbacks.onProgress(snapshot());
+    },
+
+    resume: () => {
+      paused = false;
+      pump();
+      callbacks.onProgress(snapshot());
+    },
+
+    cancel: () => {
+      cancelled = true;
+      paused = false;
+      poolWorkers.forEach(poolWorker => {
+        poolWorker.deque.splice(0).forEach(task => {
+          completed++;
+          task.settle();
+        });
+        // Workers answer their in-flight task with 'cancelled' once it has stopped
+        if (!poolWorker.dead) poolWorker.worker.postMessage({ type: 'cancel' });
+      });
+      callbacks.onProgress(snapshot());
+      checkComplete();
+    },
+
+    // Stop taking work, drop anything queued, let in-flight tasks finish, then stop the workers
+    shutdown: async () => {
+      acceptingTasks = false;
+      poolWorkers.forEach(poolWorker => {
+        poolWorker.deque.splice(0).forEach(task => task.settle());
+      });
+
+      if (inFlightCount() > 0) {
+        await Promise.race([
+          new Promise<void>(resolve => { idleResolver = resolve; }),
+          new Promise<void>(resolve => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS))
+        ]);
+      }
+      poolWorkers.forEach(poolWorker => poolWorker.worker.terminate());
+    },
+
+    terminate: () => {
+      acceptingTasks = false;
+      poolWorkers.forEach(poolWorker => {
+        poolWorker.deque.splice(0).forEach(task => task.settle());
+        poolWorker.inFlight?.settle();
+        poolWorker.inFlight = null;
+        poolWorker.worker.terminate();
+      });
+    }
+  };
+};
@@ -1,17 +1,297 @@
+export interface QRPoint {
+  x: number;
+  y: number;
+}
+
+// Coordinates are in source-image pixels, or PDF page units (scale 1.0 viewport, top-left origin)
+export interface QRLocation {
+  topLeft: QRPoint;
+  topRight: QRPoint;
+  bottomRight: QRPoint;
+  bottomLeft: QRPoint;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export type QRSegmentMode = 'numeric' | 'alphanumeric' | 'byte' | 'kanji' | 'eci';
+
+export interface QRSegment {
+  mode: QRSegmentMode;
+  length: number; // Characters for text modes, bytes for byte/kanji
+  eciAssignment?: number;
+}
+
+// Fields the engine could not report are left undefined; ZXing exposes only byte-mode segments and the EC level
+export interface QRMetadata {
+  rawBytes?: number[];
+  version?: number;
+  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+  maskPattern?: number;
+  segments?: QRSegment[];
+  eci?: number; // First ECI assignment number, if the symbol declares one
+  charset?: string; // Charset used to turn rawBytes into data
+  isBinary?: boolean; // rawBytes are not valid text in any supported charset
+}
+
+export type DecoderEngineId = 'jsqr' | 'zxing';
+
+export type PreprocessingStep =
+  | 'otsu'
+  | 'bradley-roth'
+  | 'clahe'
+  | 'gaussian-blur'
+  | 'unsharp-mask'
+  | 'erode'
+  | 'dilate'
+  | 'open'
+  | 'close';
+
+// A named chain of filters applied left to right before scanning
+export interface PreprocessingPipeline {
+  id: string;
+  steps: PreprocessingStep[];
+  enabled: boolean;
+}
+
+// Fallback strategies that can follow the direct scan, in cascade order:
+// tiles always scans overlapping tiles, not only when the direct scan hits its limit;
+// preprocessing runs the enabled pipelines; scales retries at other sizes;
+// color tries inverted, dominant-colour and single-channel variants for light-on-dark and coloured codes;
+// geometry retries finder-pattern candidates with perspective correction and rotations
+export type DetectionStrategy = 'tiles' | 'preprocessing' | 'scales' | 'color' | 'geometry';
+
+export type DetectionProfileId = 'fast' | 'balanced' | 'exhaustive' | 'custom';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+
+export type CsvColumnId =
+  | 'file-name'
+  | 'relative-path'
+  | 'parent-file'
+  | 'status'
+  | 'page'
+  | 'data'
+  | 'format'
+  | 'engine'
+  | 'found-in'
+  | 'decoded-pages'
+  | 'skipped-pages'
+  | 'strategy'
+  | 'frame'
+  | 'location'
+  | 'page-time'
+  | 'page-strategy-timings'
+  | 'processing-time'
+  | 'profile'
+  | 'error';
+
+export interface CsvExportSettings {
+  columns: CsvColumnId[]; // In output order
+  delimiter: ',' | ';' | '\t' | '|';
+  quoting: 'minimal' | 'all'; // Minimal quotes only fields that need it
+  includeBom: boolean; // Lets Excel detect UTF-8
+  lineEnding: 'lf' | 'crlf';
+  fileNameTemplate: string; // Supports {date}, {time}, {files} and {codes}
+}
+
+export interface CsvExportPreset {
+  name: string;
+  settings: CsvExportSettings;
+  builtIn?: boolean;
+}
+
+export interface DetectionProfile {
+  id: DetectionProfileId;
+  strategies: DetectionStrategy[];
+  timeBudgetMs: number; // Per image or PDF page; remaining strategies are skipped once spent. 0 means no limit
+  stopAtFirstResult: boolean; // Skip the remaining strategies as soon as any code is found
+}
+
+export interface DecodeOptions {
+  engines: DecoderEngineId[]; // Tried in order on every strategy
+  extractEmbeddedImages: boolean; // Scan PDF image XObjects at native size before rasterising pages
+  preprocessing: PreprocessingPipeline[]; // Tried in order by the preprocessing strategy
+  profile: DetectionProfile;
+}
+
+// How a code in a PDF was found: in an embedded image, or on the rendered page
+export type PdfDecodePath = 'embedded-image' | 'page-render';
+
 export interface DecodedQR {
   data: string;
   page: number; // For PDFs, for images this will be 1
+  format: string; // ZXing-style symbology name, e.g. QR_CODE, DATA_MATRIX, CODE_128
+  engine: DecoderEngineId;
+  location?: QRLocation;
+  metadata?: QRMetadata;
+  pdfSource?: PdfDecodePath; // Only set for PDF pages
+  strategy?: string; // What decoded it, with its parameter, e.g. "direct", "scale@1.2", "preprocessing@clahe-otsu"
+  frame?: number; // Animated GIF/APNG frame the code was first found in
+}
+
+// How long one strategy ran on one image or PDF page
+export interface StrategyTiming {
+  strategy: DetectionStrategy | 'direct' | 'auto-invert';
+  page: number;
+  durationMs: number;
+  codesFound: number; // New codes only, after deduplication
+  pdfSource?: PdfDecodePath;
+}
+
+// A distinct code seen during a live camera session
+export interface CameraScan {
+  data: string;
+  format: string;
+  engine: DecoderEngineId;
+  firstSeen: number; // Epoch milliseconds
+  lastSeen: number;
+  sightings: number; // Frames the code was decoded in
+}
+
+// Which pages of a PDF were decoded, so skipped pages can be reported
+export interface PageSelection {
+  range: string; // As entered, e.g. "1-5, 12, 30-"
+  totalPages: number;
+  pages: number[]; // Pages that were decoded, ascending
 }
 
 export interface DecodedFileResult {
   fileName: string;
+  relativePath?: string; // Path within a dropped folder or ZIP archive, e.g. "receipts.zip/2024/03/r-001.pdf"
   status: 'success' | 'no_qr_found' | 'error';
   qrs: DecodedQR[];
   error?: string;
   pageNumber?: number; // For PDF page identification
-  parentFileName?: string; // For PDF pages, reference to parent file
+  parentFileName?: string; // For PDF pages, reference to parent file (its relative path when it has one)
   processingTime?: number; // Time taken to process this file/page
-  strategy?: string; // Processing strategy used
+  strategy?: string; // Distinct strategies that found this file's codes, e.g. "direct, scale@1.2"
+  strategyTimings?: StrategyTiming[]; // Every strategy that ran, per page
+  pageSelection?: PageSelection; // Only set for PDFs decoded with a page range
+  totalPages?: number; // Only set for paged documents (PDF, TIFF), whose codes are labelled by page
+  profile?: DetectionProfileId; // Detection profile the file was decoded with
+}
+
+export interface PageThumbnail {
+  fileName: string; // Relative path instead for files from folders and archives, where names can repeat
+  page: number;
+  url: string; // Object URL for a downscaled preview image
+  width: number; // Source width in the same units as QRLocation
+  height: number;
+}
+
+// Structured content recognised in decoded text; 'text' is the fallback for anything else
+export interface ContactPayload {
+  kind: 'contact';
+  source: 'vcard' | 'mecard';
+  name?: string;
+  organization?: string;
+  title?: string;
+  phones: string[];
+  emails: string[];
+  urls: string[];
+  addresses: string[];
+  birthday?: string;
+  note?: string;
+}
+
+export interface WifiPayload {
+  kind: 'wifi';
+  ssid: string;
+  password?: string;
+  security?: string; // T field as written, e.g. WPA, SAE, WPA2-EAP
+  hidden: boolean;
+  eapMethod?: string;
+  identity?: string;
+  anonymousIdentity?: string;
+  phase2?: string;
+}
+
+export interface EventPayload {
+  kind: 'event';
+  summary?: string;
+  start?: Date;
+  end?: Date;
+  allDay: boolean; // DATE values rather than DATE-TIME
+  location?: string;
+  description?: string;
+}
+
+export interface CryptoPaymentPayload {
+  kind: 'crypto';
+  currency: 'bitcoin' | 'ethereum';
+  address: string;
+  amount?: string; // BIP 21 amount in BTC, or EIP-681 value in wei
+  label?: string;
+  message?: string;
+  chainId?: string; // EIP-681 only
+  functionName?: string; // EIP-681 contract call, e.g. "transfer"
+  parameters: Record<string, string>; // Every query parameter, including unrecognised ones
+}
+
+export interface OtpPayload {
+  kind: 'otp';
+  type: 'totp' | 'hotp';
+  issuer?: string;
+  account: string;
+  secret: string;
+  algorithm: string;
+  digits: number;
+  period?: number; // TOTP only
+  counter?: number; // HOTP only
+}
+
+export interface EmvMerchantAccount {
+  tag: string; // "02"-"51"
+  identifier?: string; // Globally unique identifier (sub-tag 00) of templates 26-51
+  fields: Record<string, string>;
+}
+
+export interface EmvPaymentPayload {
+  kind: 'emv';
+  initiation?: 'static' | 'dynamic';
+  merchantName?: string;
+  merchantCity?: string;
+  postalCode?: string;
+  countryCode?: string;
+  categoryCode?: string;
+  currency?: string; // ISO 4217 numeric code
+  amount?: string;
+  merchantAccounts: EmvMerchantAccount[];
+  additionalData: Record<string, string>; // Tag 62 sub-fields, e.g. "01" bill number
+  crcValid: boolean;
+}
+
+export type ParsedPayload =
+  | { kind: 'text'; text: string }
+  | { kind: 'url'; url: string; title?: string } // title comes from MEBKM bookmarks
+  | { kind: 'phone'; number: string }
+  | { kind: 'sms'; numbers: string[]; message?: string }
+  | { kind: 'email'; to: string[]; cc: string[]; bcc: string[]; subject?: string; body?: string }
+  | WifiPayload
+  | { kind: 'geo'; latitude: number; longitude: number; altitude?: number; query?: string }
+  | ContactPayload
+  | EventPayload
+  | CryptoPaymentPayload
+  | OtpPayload
+  | EmvPaymentPayload;
+
+// Offline checks for links that may be phishing ("quishing") attempts
+export type UrlRiskCheck =
+  | 'dangerous-scheme'
+  | 'punycode'
+  | 'ip-host'
+  | 'shortener'
+  | 'mismatched-text'
+  | 'long-query'
+  | 'risky-tld';
+
+export interface UrlRiskReason {
+  check: UrlRiskCheck;
+  message: string;
 }
 
 export interface QRGenerationData {
@@ -20,11 +300,28 @@ export interface QRGenerationData {
   displayName?: string;
 }
 
+// WPA covers WPA/WPA2 Personal, SAE is WPA3 Personal, WPA2-EAP is WPA2/WPA3 Enterprise
+export type WiFiSecurity = 'WPA' | 'SAE' | 'WPA2-EAP' | 'WEP' | 'nopass';
+
 export interface WiFiCredentials {
   ssid: string;
   password: string;
-  security: 'WPA' | 'WEP' | 'nopass';
+  security: WiFiSecurity;
   hidden: boolean;
+  // Enterprise (WPA2-EAP) only
+  eapMethod?: string; // e.g. PEAP, TTLS, TLS, PWD
+  identity?: string;
+  anonymousIdentity?: string;
+  phase2?: string; // Inner authentication, e.g. MSCHAPV2
+}
+
+export interface QRSettings {
+  foregroundColor: string;
+  backgroundColor: string;
+  size: number;
+  margin: number;
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H';
+  quality: 'low' | 'medium' | 'high';
 }
 
 export interface GeneratedQR {
@@ -33,5 +330,6 @@ export interface GeneratedQR {
   data: string;
   displayName: string;
   qrDataUrl: string;
+  settings: QRSettings; // Styling used to render qrDataUrl, reused for downloads and exports
   createdAt: Date;
 }
@@ -0,0 +1,17 @@
+// libheif-js ships types only for its Emscripten internals; this covers the bundled ES module used by decodeHeic
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: { data: Uint8ClampedArray; width: number; height: number }, callback: (result: unknown) => void): void;
+    free(): void;
+  }
+
+  interface LibHeif {
+    HeifDecoder: new () => { decode(buffer: ArrayBuffer | Uint8Array): HeifImage[] };
+  }
+
+  const libheif: () => LibHeif;
+  export default libheif;
+}
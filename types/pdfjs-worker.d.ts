@@ -0,0 +1,4 @@
+// pdf.js ships no type declarations for its worker bundle; ensurePdfjs only hands the module to pdf.js
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
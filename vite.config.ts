@@ -20,7 +20,7 @@ export default defineConfig(({ mode }) => {
           output: {
             manualChunks: {
               // Separate large dependencies into their own chunks
-              'pdfjs': ['pdfjs-dist'],
+              // pdfjs-dist is only imported by the decoder worker, which bundles it separately
               'qr-libs': ['jsqr', 'qrcode'],
               'vendor': ['react', 'react-dom']
             }